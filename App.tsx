@@ -1,66 +1,272 @@
 
-import React, { useState } from 'react';
-import { LayoutDashboard, AlertCircle, Database } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { LayoutDashboard, AlertCircle, Database, Tags, Gift, FilePlus, Loader2, Truck, ListChecks } from 'lucide-react';
 import InputSection from './components/InputSection';
 import AnalysisDashboard from './components/AnalysisDashboard';
 import AIChatPanel from './components/AIChatPanel';
-import { SalesRecord, AnalysisResult } from './types';
+import BrandManager from './components/BrandManager';
+import GiftRulesEditor from './components/GiftRulesEditor';
+import SupplierSettingsEditor from './components/SupplierSettingsEditor';
+import DecisionRulesEditor from './components/DecisionRulesEditor';
+import SessionHistory from './components/SessionHistory';
+import AppendMergeDialog from './components/AppendMergeDialog';
+import {
+  SalesRecord, AnalysisResult, DataQualityReport, BrandDefinition, GiftRules, MergeStrategy, OverlapReport, StockSnapshot,
+  InventorySettings, ClassificationSettings, PriceBandSettings, DecisionRuleSettings, ProductPerformance
+} from './types';
 import {
   analyzePerformance, analyzeSeasonality, analyzePriceBands, analyzeBrands, analyzeDailyTrend,
   calculateInventoryMetrics, forecastNextMonth, calculateYoYComparison, analyzeProfitMargin, detectSlowMoving
 } from './utils/dataProcessor';
+import { reclassifyBrands } from './utils/brandRegistry';
+import { detectGifts, analyzeGiftAttachment, loadGiftRules } from './utils/giftRules';
+import { forecastDemand } from './utils/demandForecast';
+import { loadInventorySettings } from './utils/supplierSettings';
+import { loadClassificationSettings } from './utils/classification';
+import { loadPriceBandSettings, resolveCategoryBands } from './utils/priceBands';
+import { analyzeOverlap, mergeRecords, mergeQualityReports } from './utils/datasetMerge';
+import { carryOverRefinements, generateRuleDecisions, loadDecisionRuleSettings, summarizeDecisions } from './utils/decisionRules';
 import { generateDecisionMatrix } from './services/geminiService';
+import { hasApiKey } from './services/geminiClient';
+import { saveSession, loadSession, updateSessionData } from './services/sessionStore';
 
 const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [rawRecords, setRawRecords] = useState<SalesRecord[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [settingsPanel, setSettingsPanel] = useState<'brands' | 'gifts' | 'suppliers' | 'rules' | 'append' | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [inventorySettings, setInventorySettings] = useState<InventorySettings>(() => loadInventorySettings());
+  const [classificationSettings, setClassificationSettings] = useState<ClassificationSettings>(() => loadClassificationSettings());
+  const [priceBandSettings, setPriceBandSettings] = useState<PriceBandSettings>(() => loadPriceBandSettings());
+  const [decisionRuleSettings, setDecisionRuleSettings] = useState<DecisionRuleSettings>(() => loadDecisionRuleSettings());
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [pendingAppend, setPendingAppend] = useState<{
+    records: SalesRecord[];
+    fileNames: string[];
+    qualityReport: DataQualityReport;
+    overlap: OverlapReport;
+  } | null>(null);
+
+  const [isRefiningAI, setIsRefiningAI] = useState(false);
+  const refineTarget = useRef<AnalysisResult['decisions'] | null>(null); // 最近一次送出 AI 改寫的規則決策
+  // 背景 AI 改寫完成時需取得當下的資料與紀錄 id (期間可能已變更品牌字典、補貨參數等)
+  const latest = useRef({ rawRecords, analysisResult, sessionId });
+  latest.current = { rawRecords, analysisResult, sessionId };
+
+  // 更新畫面並同步寫回目前的分析紀錄
+  const applyUpdate = (records: SalesRecord[], result: AnalysisResult) => {
+    setRawRecords(records);
+    setAnalysisResult(result);
+    if (sessionId) {
+      updateSessionData(sessionId, records, result).catch(err => console.error("Session update failed:", err));
+    }
+  };
+
+  // 品牌字典變更：重新歸類已載入的紀錄，只需重算品牌相關指標
+  const handleBrandRegistryChange = (registry: BrandDefinition[]) => {
+    if (!analysisResult) return;
+    const updated = reclassifyBrands(rawRecords, registry);
+    applyUpdate(updated, { ...analysisResult, brandDistribution: analyzeBrands(updated) });
+  };
+
+  // 贈品規則變更：重新判斷贈品與主商品連結
+  const handleGiftRulesChange = (rules: GiftRules) => {
+    if (!analysisResult) return;
+    const updated = detectGifts(rawRecords, rules);
+    applyUpdate(updated, { ...analysisResult, giftAttachments: analyzeGiftAttachment(updated) });
+  };
+
+  // 補貨參數變更：只需重算庫存指標
+  const handleInventorySettingsChange = (settings: InventorySettings) => {
+    setInventorySettings(settings);
+    if (!analysisResult) return;
+    const inventoryMetrics = calculateInventoryMetrics(
+      rawRecords, analysisResult.productForecasts, settings, analysisResult.performanceMetrics
+    );
+    applyUpdate(rawRecords, { ...analysisResult, inventoryMetrics });
+  };
+
+  // 規則決策與摘要 (不需 AI)
+  const buildRuleDecisions = (
+    performance: ProductPerformance[],
+    settings: DecisionRuleSettings
+  ): Pick<AnalysisResult, 'decisions' | 'overallSummary' | 'decisionSource' | 'aiError'> => {
+    const decisions = generateRuleDecisions(performance, settings);
+    return { decisions, overallSummary: summarizeDecisions(decisions, performance), decisionSource: 'RULES', aiError: undefined };
+  };
+
+  // 重新產生規則決策，沿用先前 AI 改寫的結果
+  // AI 改寫的理由只保留標籤未變的商品，有任何標籤改變時改用規則摘要
+  const rebuildDecisions = (
+    performance: ProductPerformance[],
+    settings: DecisionRuleSettings,
+    previous: AnalysisResult
+  ): Pick<AnalysisResult, 'decisions' | 'overallSummary' | 'decisionSource' | 'aiError'> => {
+    const ruleUpdate = buildRuleDecisions(performance, settings);
+    const previousTags = new Map(previous.decisions.map(d => [d.productName, d.tag]));
+    const keepSummary = previous.decisionSource === 'AI' &&
+      ruleUpdate.decisions.every(d => previousTags.get(d.productName) === d.tag);
+    return {
+      ...ruleUpdate,
+      decisions: carryOverRefinements(ruleUpdate.decisions, previous.decisions),
+      ...(keepSummary && { overallSummary: previous.overallSummary, decisionSource: 'AI' as const })
+    };
+  };
+
+  // 分級設定變更：重算 ABC-XYZ，服務水準依 ABC 而定，庫存指標一併重算
+  // 決策標籤一律依新分級重新產生 (見 rebuildDecisions)
+  const handleClassificationSettingsChange = (settings: ClassificationSettings) => {
+    setClassificationSettings(settings);
+    if (!analysisResult) return;
+    const performanceMetrics = analyzePerformance(rawRecords, settings);
+    const inventoryMetrics = calculateInventoryMetrics(
+      rawRecords, analysisResult.productForecasts, inventorySettings, performanceMetrics
+    );
+    const decisionUpdate = rebuildDecisions(performanceMetrics, decisionRuleSettings, analysisResult);
+    applyUpdate(rawRecords, { ...analysisResult, performanceMetrics, inventoryMetrics, ...decisionUpdate });
+  };
+
+  // 決策規則變更：以規則重新產生決策清單，沿用 AI 改寫的結果 (關閉 AI 時改回規則理由)
+  // 新開啟 AI 時在背景改寫
+  const handleDecisionRuleSettingsChange = (settings: DecisionRuleSettings) => {
+    setDecisionRuleSettings(settings);
+    if (!analysisResult) return;
+    const decisionUpdate = settings.useAI
+      ? rebuildDecisions(analysisResult.performanceMetrics, settings, analysisResult)
+      : buildRuleDecisions(analysisResult.performanceMetrics, settings);
+    const result = { ...analysisResult, ...decisionUpdate };
+    applyUpdate(rawRecords, result);
+    if (settings.useAI && !decisionRuleSettings.useAI) refineWithAI(result, settings);
+  };
+
+  // 價格帶設定變更：只需重算價格帶結構
+  const handlePriceBandSettingsChange = (settings: PriceBandSettings) => {
+    setPriceBandSettings(settings);
+    if (!analysisResult) return;
+    const priceBands = analyzePriceBands(rawRecords, resolveCategoryBands(rawRecords, settings));
+    applyUpdate(rawRecords, { ...analysisResult, priceBands });
+  };
+
+  // 庫存快照變更：只影響補貨建議，不需重新分析
+  const handleStockSnapshotChange = (snapshot: StockSnapshot | null) => {
+    if (!analysisResult) return;
+    applyUpdate(rawRecords, { ...analysisResult, stockSnapshot: snapshot ?? undefined });
+  };
+
+  // 開啟歷史紀錄：直接還原，不重新呼叫 AI
+  const handleOpenSession = async (id: string) => {
+    setError(null);
+    try {
+      const session = await loadSession(id);
+      if (!session) throw new Error("找不到此分析紀錄，可能已被刪除。");
+      refineTarget.current = null;
+      setIsRefiningAI(false);
+      setRawRecords(session.records);
+      setAnalysisResult(session.result);
+      setSessionId(session.id);
+      setFileNames(session.fileNames);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "無法開啟分析紀錄");
+    }
+  };
+
+  const togglePanel = (panel: 'brands' | 'gifts' | 'suppliers' | 'rules' | 'append') => setSettingsPanel(prev => prev === panel ? null : panel);
+
+  // 本地計算 + AI 決策，產生完整分析結果
+  const runAnalysis = async (records: SalesRecord[], dataQuality?: DataQualityReport): Promise<AnalysisResult> => {
+    // 1. Client-side Data Science Analysis
+    const performance = analyzePerformance(records, classificationSettings);
+    const seasonality = analyzeSeasonality(records);
+    const priceBands = analyzePriceBands(records, resolveCategoryBands(records, priceBandSettings));
+    const brandDistribution = analyzeBrands(records);
+    const dailyTrend = analyzeDailyTrend(records);
+
+    // 1.5 核心功能增強計算
+    const demandForecast = forecastDemand(records);
+    const inventoryMetrics = calculateInventoryMetrics(records, demandForecast.products, inventorySettings, performance);
+    const forecast = forecastNextMonth(seasonality);
+    const yoyComparison = calculateYoYComparison(seasonality);
+    const profitAnalysis = analyzeProfitMargin(records);
+    const slowMovingAlerts = detectSlowMoving(records);
+    const giftAttachments = analyzeGiftAttachment(records);
 
-  const handleDataLoaded = async (records: SalesRecord[], fileName: string) => {
+    if (performance.length === 0) {
+      throw new Error("無法從檔案中解析出有效數據，請檢查欄位名稱 (需包含商品、金額、日期)");
+    }
+
+    // 2. 決策：本地規則產生，AI 改寫於結果顯示後在背景進行 (見 refineWithAI)
+    const decisionResult = buildRuleDecisions(performance, decisionRuleSettings);
+
+    // 3. Combine all results
+    return {
+      performanceMetrics: performance,
+      seasonality: seasonality,
+      priceBands: priceBands,
+      brandDistribution: brandDistribution,
+      dailyTrend: dailyTrend,
+      ...decisionResult,
+      // 新增核心功能
+      inventoryMetrics,
+      forecast,
+      yoyComparison,
+      profitAnalysis,
+      slowMovingAlerts,
+      dataQuality,
+      giftAttachments,
+      productForecasts: demandForecast.products,
+      categoryForecasts: demandForecast.categories
+    };
+  };
+
+  // AI 改寫理由與摘要：不阻擋分析結果，完成後套用至目前的分析
+  // 期間若決策已重新產生 (重新分析、開啟紀錄、變更分級或決策規則)，結果對應不上，直接捨棄
+  const refineWithAI = (result: AnalysisResult, settings: DecisionRuleSettings = decisionRuleSettings) => {
+    if (!settings.useAI || !hasApiKey()) return;
+    refineTarget.current = result.decisions;
+    setIsRefiningAI(true);
+    generateDecisionMatrix(result.performanceMetrics, result.seasonality, result.decisions)
+      .then((aiResult): Partial<AnalysisResult> => ({ ...aiResult, decisionSource: 'AI', aiError: undefined }))
+      .catch((err: any): Partial<AnalysisResult> => {
+        console.error("AI refinement failed:", err);
+        return { aiError: err.message || "AI 分析失敗" };
+      })
+      .then(update => {
+        if (refineTarget.current !== result.decisions) return; // 已有較新的改寫請求
+        refineTarget.current = null;
+        setIsRefiningAI(false);
+        setAnalysisResult(prev => prev && prev.decisions === result.decisions ? { ...prev, ...update } : prev);
+
+        const { analysisResult: current, rawRecords: records, sessionId: id } = latest.current;
+        if (id && current && current.decisions === result.decisions) {
+          updateSessionData(id, records, { ...current, ...update }).catch(err => console.error("Session update failed:", err));
+        }
+      });
+  };
+
+  const handleDataLoaded = async (records: SalesRecord[], fileName: string, dataQuality?: DataQualityReport) => {
+    refineTarget.current = null;
+    setIsRefiningAI(false);
     setIsLoading(true);
     setError(null);
     setAnalysisResult(null);
+    setSessionId(null);
     setRawRecords(records);
 
     try {
-      // 1. Client-side Data Science Analysis
-      const performance = analyzePerformance(records);
-      const seasonality = analyzeSeasonality(records);
-      const priceBands = analyzePriceBands(records);
-      const brandDistribution = analyzeBrands(records);
-      const dailyTrend = analyzeDailyTrend(records);
-
-      // 1.5 核心功能增強計算
-      const inventoryMetrics = calculateInventoryMetrics(records);
-      const forecast = forecastNextMonth(seasonality);
-      const yoyComparison = calculateYoYComparison(seasonality);
-      const profitAnalysis = analyzeProfitMargin(records);
-      const slowMovingAlerts = detectSlowMoving(records);
-
-      if (performance.length === 0) {
-        throw new Error("無法從檔案中解析出有效數據，請檢查欄位名稱 (需包含商品、金額、日期)");
-      }
+      const result = await runAnalysis(records, dataQuality);
+      setAnalysisResult(result);
+      refineWithAI(result);
 
-      // 2. AI Qualitative Analysis (Decision Engine)
-      const aiResult = await generateDecisionMatrix(performance, seasonality);
-
-      // 3. Combine all results
-      setAnalysisResult({
-        performanceMetrics: performance,
-        seasonality: seasonality,
-        priceBands: priceBands,
-        brandDistribution: brandDistribution,
-        dailyTrend: dailyTrend,
-        decisions: aiResult.decisions,
-        overallSummary: aiResult.overallSummary,
-        // 新增核心功能
-        inventoryMetrics,
-        forecast,
-        yoyComparison,
-        profitAnalysis,
-        slowMovingAlerts
-      });
+      // 4. 保存至本機，下次可直接開啟
+      const names = fileName.split(', ');
+      setFileNames(names);
+      const sessionName = `${names[0]}${names.length > 1 ? ` 等 ${names.length} 個檔案` : ''}`;
+      saveSession(sessionName, names, records, result)
+        .then(setSessionId)
+        .catch(err => console.error("Session save failed:", err));
 
     } catch (err: any) {
       console.error(err);
@@ -70,6 +276,47 @@ const App: React.FC = () => {
     }
   };
 
+  // 追加資料：合併、重新判斷贈品後重新分析，沿用目前的分析紀錄
+  const applyAppend = async (incoming: SalesRecord[], incomingFiles: string[], qualityReport: DataQualityReport, strategy: MergeStrategy) => {
+    if (!analysisResult) return;
+    setPendingAppend(null);
+    setSettingsPanel(null);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const merged = detectGifts(mergeRecords(rawRecords, incoming, strategy), loadGiftRules());
+      const mergedFiles = Array.from(new Set([...fileNames, ...incomingFiles]));
+      const result = {
+        ...await runAnalysis(merged, mergeQualityReports(analysisResult.dataQuality, qualityReport)),
+        stockSnapshot: analysisResult.stockSnapshot
+      };
+      setRawRecords(merged);
+      setAnalysisResult(result);
+      setFileNames(mergedFiles);
+      refineWithAI(result);
+      if (sessionId) {
+        updateSessionData(sessionId, merged, result, mergedFiles).catch(err => console.error("Session update failed:", err));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "追加資料後重新分析失敗，原有分析結果保持不變。");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAppendLoaded = (records: SalesRecord[], fileName: string, qualityReport: DataQualityReport) => {
+    const incomingFiles = fileName.split(', ');
+    const overlap = analyzeOverlap(rawRecords, records);
+    if (overlap.overlapRange || overlap.duplicateCount > 0) {
+      setSettingsPanel(null);
+      setPendingAppend({ records, fileNames: incomingFiles, qualityReport, overlap });
+    } else {
+      applyAppend(records, incomingFiles, qualityReport, 'KEEP_BOTH');
+    }
+  };
+
   return (
     <div className="min-h-screen pb-12 bg-slate-50">
       {/* Header */}
@@ -115,8 +362,13 @@ const App: React.FC = () => {
             <InputSection onDataLoaded={handleDataLoaded} isLoading={isLoading} />
             <div className="mt-6 text-center text-sm text-gray-500">
               <p>系統將在本地端進行資料清洗與計算 (Data Cleansing & Calculation)，</p>
-              <p>僅將統計結果傳送至 AI 進行策略決策。</p>
+              <p>決策由本地規則產生，設定 AI 金鑰時僅將統計結果傳送至 AI 改寫理由。</p>
             </div>
+            {!isLoading && (
+              <div className="mt-8">
+                <SessionHistory onOpen={handleOpenSession} disabled={isLoading} />
+              </div>
+            )}
           </div>
         )}
 
@@ -127,7 +379,7 @@ const App: React.FC = () => {
             <h3 className="text-xl font-bold text-gray-700">正在啟動智能分析引擎...</h3>
             <p className="text-gray-500 mt-2">1. 解析 Excel 結構... OK</p>
             <p className="text-gray-500">2. 計算 Pareto 貢獻度與價格帶...</p>
-            <p className="text-gray-500">3. 呼叫 Gemini 生成決策矩陣...</p>
+            <p className="text-gray-500">3. 依規則產生決策...</p>
           </div>
         )}
 
@@ -135,15 +387,88 @@ const App: React.FC = () => {
         {analysisResult && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
-              <h2 className="text-2xl font-bold text-gray-800">分析報告</h2>
-              <button
-                onClick={() => setAnalysisResult(null)}
-                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
-              >
-                ← 上傳新檔案
-              </button>
+              <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-3">
+                分析報告
+                {isRefiningAI && (
+                  <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+                    <Loader2 className="w-3 h-3 animate-spin" /> AI 正在改寫決策理由，完成後自動更新
+                  </span>
+                )}
+              </h2>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => togglePanel('brands')}
+                  className={`flex items-center gap-1 text-sm font-medium ${settingsPanel === 'brands' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  <Tags className="w-4 h-4" /> 品牌字典
+                </button>
+                <button
+                  onClick={() => togglePanel('gifts')}
+                  className={`flex items-center gap-1 text-sm font-medium ${settingsPanel === 'gifts' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  <Gift className="w-4 h-4" /> 贈品規則
+                </button>
+                <button
+                  onClick={() => togglePanel('suppliers')}
+                  className={`flex items-center gap-1 text-sm font-medium ${settingsPanel === 'suppliers' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  <Truck className="w-4 h-4" /> 補貨參數
+                </button>
+                <button
+                  onClick={() => togglePanel('rules')}
+                  className={`flex items-center gap-1 text-sm font-medium ${settingsPanel === 'rules' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  <ListChecks className="w-4 h-4" /> 決策規則
+                </button>
+                <button
+                  onClick={() => togglePanel('append')}
+                  disabled={isLoading}
+                  className={`flex items-center gap-1 text-sm font-medium disabled:opacity-50 ${settingsPanel === 'append' ? 'text-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                >
+                  {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <FilePlus className="w-4 h-4" />}
+                  {isLoading ? '重新分析中...' : '追加資料'}
+                </button>
+                <button
+                  onClick={() => { setAnalysisResult(null); setSessionId(null); setPendingAppend(null); }}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  ← 上傳新檔案
+                </button>
+              </div>
             </div>
-            <AnalysisDashboard data={analysisResult} rawRecords={rawRecords} />
+            {settingsPanel === 'brands' && (
+              <BrandManager records={rawRecords} onRegistryChange={handleBrandRegistryChange} />
+            )}
+            {settingsPanel === 'gifts' && (
+              <GiftRulesEditor onRulesChange={handleGiftRulesChange} />
+            )}
+            {settingsPanel === 'suppliers' && (
+              <SupplierSettingsEditor records={rawRecords} onSettingsChange={handleInventorySettingsChange} />
+            )}
+            {settingsPanel === 'rules' && (
+              <DecisionRulesEditor onSettingsChange={handleDecisionRuleSettingsChange} />
+            )}
+            {settingsPanel === 'append' && (
+              <InputSection onDataLoaded={handleAppendLoaded} isLoading={isLoading} mode="append" existingRecords={rawRecords} />
+            )}
+            {pendingAppend && (
+              <AppendMergeDialog
+                report={pendingAppend.overlap}
+                incomingCount={pendingAppend.records.length}
+                onResolve={strategy => applyAppend(pendingAppend.records, pendingAppend.fileNames, pendingAppend.qualityReport, strategy)}
+                onCancel={() => setPendingAppend(null)}
+              />
+            )}
+            <AnalysisDashboard
+              data={analysisResult}
+              rawRecords={rawRecords}
+              inventorySettings={inventorySettings}
+              classificationSettings={classificationSettings}
+              onClassificationSettingsChange={handleClassificationSettingsChange}
+              priceBandSettings={priceBandSettings}
+              onPriceBandSettingsChange={handlePriceBandSettingsChange}
+              onStockSnapshotChange={handleStockSnapshotChange}
+            />
           </div>
         )}
 
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { ABCClass, ProductPerformance, XYZClass } from '../types';
+import { ABC_XYZ_STRATEGIES, buildAbcXyzMatrix, cellCode } from '../utils/classification';
+
+interface Props {
+  performance: ProductPerformance[];
+  basisLabel: string;
+}
+
+// 重要性高且穩定 → 綠，重要性低且不規則 → 紅
+const CELL_STYLES: Record<string, string> = {
+  AX: 'bg-emerald-100 border-emerald-300',
+  AY: 'bg-emerald-50 border-emerald-200',
+  AZ: 'bg-amber-50 border-amber-200',
+  BX: 'bg-emerald-50 border-emerald-200',
+  BY: 'bg-gray-50 border-gray-200',
+  BZ: 'bg-amber-50 border-amber-200',
+  CX: 'bg-gray-50 border-gray-200',
+  CY: 'bg-amber-50 border-amber-200',
+  CZ: 'bg-red-50 border-red-200'
+};
+
+const AbcXyzMatrix: React.FC<Props> = ({ performance, basisLabel }) => {
+  const cells = useMemo(() => buildAbcXyzMatrix(performance), [performance]);
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          <Grid3x3 className="w-5 h-5 text-blue-500" />
+          ABC-XYZ 矩陣
+        </h3>
+        <div className="text-xs text-gray-500 bg-gray-50 px-3 py-1 rounded-full">
+          ABC 依{basisLabel}累積占比 · XYZ 依需求變異係數
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-2 text-sm">
+        <div></div>
+        {[XYZClass.X, XYZClass.Y, XYZClass.Z].map(xyz => (
+          <div key={xyz} className="text-center text-xs font-bold text-gray-500 py-1">{xyz}</div>
+        ))}
+        {[ABCClass.A, ABCClass.B, ABCClass.C].map(abc => (
+          <React.Fragment key={abc}>
+            <div className="flex items-center text-xs font-bold text-gray-500 pr-2 whitespace-nowrap">{abc}</div>
+            {cells.filter(c => c.abc === abc).map(c => {
+              const code = cellCode(c.abc, c.xyz);
+              return (
+                <div key={code} className={`p-3 rounded-lg border ${CELL_STYLES[code]}`}>
+                  <div className="flex justify-between items-baseline">
+                    <span className="font-bold text-gray-800">{code}</span>
+                    <span className="text-xs text-gray-500">{c.productCount} 項 · {c.revenueShare}%</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">{fmt(c.revenue)}</div>
+                  <div className="text-xs text-blue-700 mt-1">{ABC_XYZ_STRATEGIES[code]}</div>
+                  {c.topProducts.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-xs text-gray-600">
+                      {c.topProducts.map(name => <li key={name} className="truncate" title={name}>{name}</li>)}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AbcXyzMatrix;
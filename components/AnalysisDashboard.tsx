@@ -1,38 +1,124 @@
 
-import React, { useState, useMemo } from 'react';
-import { AnalysisResult, DecisionTag, LifecycleStage, ABCClass, SalesRecord } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import {
+  AnalysisResult, DecisionTag, LifecycleStage, ABCClass, SalesRecord, StockSnapshot, InventorySettings,
+  DatePreset, DateRange, ComparisonBaseline, ClassificationSettings, XYZClass, PriceBandSettings, PurchaseOrderDraft
+} from '../types';
 import {
   BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  ComposedChart, Area, AreaChart, ScatterChart, Scatter, ZAxis, Cell, PieChart, Pie
+  ComposedChart, Area, ScatterChart, Scatter, ZAxis, Cell, PieChart, Pie
 } from 'recharts';
 import {
   AlertCircle, CheckCircle, PackageMinus, TrendingUp, Archive,
   Download, Eye, Activity, Box, DollarSign, PieChart as PieIcon, Calendar, Filter,
-  Package, AlertTriangle, TrendingDown, Percent
+  Package, AlertTriangle, TrendingDown, Percent, Undo2, Gift, CalendarRange, Store
 } from 'lucide-react';
-import { analyzePerformance, analyzeSeasonality, analyzePriceBands, analyzeBrands, analyzeDailyTrend } from '../utils/dataProcessor';
+import {
+  analyzePerformance, analyzeSeasonality, analyzePriceBands, analyzeBrands, analyzeDailyTrend, forecastNextMonth,
+  calculateInventoryMetrics, calculateYoYComparison, analyzeProfitMargin, detectSlowMoving
+} from '../utils/dataProcessor';
+import { forecastDemand } from '../utils/demandForecast';
+import DataQualityPanel from './DataQualityPanel';
+import DemandForecastPanel from './DemandForecastPanel';
+import StockSnapshotPanel from './StockSnapshotPanel';
+import PurchaseOrderBuilder from './PurchaseOrderBuilder';
+import PeriodComparisonPanel from './PeriodComparisonPanel';
+import ClassificationSettingsEditor from './ClassificationSettingsEditor';
+import AbcXyzMatrix from './AbcXyzMatrix';
+import PriceBandHeatmap from './PriceBandHeatmap';
+import PriceElasticityPanel from './PriceElasticityPanel';
+import MarketBasketPanel from './MarketBasketPanel';
+import StoreComparisonPanel from './StoreComparisonPanel';
+import StockTransferPanel from './StockTransferPanel';
+import { FORECAST_METHOD_LABELS } from '../utils/forecasting';
+import { calculateStockPositions } from '../utils/stockSnapshot';
+import { getDateRange } from '../utils/datasetMerge';
+import {
+  DATE_PRESET_LABELS, BASELINE_LABELS, resolvePresetRange, baselineRange, filterByDateRange, comparePeriods
+} from '../utils/periodComparison';
+import { BASIS_LABELS } from '../utils/classification';
+import { resolveCategoryBands } from '../utils/priceBands';
+import { listChannels, listStores } from '../utils/storeAnalysis';
+import { describeLifecycleSignals } from '../utils/lifecycle';
+
+const MAX_DECISION_ROWS = 200; // 規則引擎涵蓋所有商品，完整清單以 CSV 匯出
 
 interface Props {
   data: AnalysisResult;
   rawRecords: SalesRecord[];
+  inventorySettings: InventorySettings;
+  classificationSettings: ClassificationSettings;
+  onClassificationSettingsChange: (settings: ClassificationSettings) => void;
+  priceBandSettings: PriceBandSettings;
+  onPriceBandSettingsChange: (settings: PriceBandSettings) => void;
+  onStockSnapshotChange: (snapshot: StockSnapshot | null) => void;
 }
 
-const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
-  const [activeTab, setActiveTab] = useState<'strategy' | 'matrix' | 'details' | 'inventory'>('strategy');
+const AnalysisDashboard: React.FC<Props> = ({
+  data, rawRecords, inventorySettings, classificationSettings, onClassificationSettingsChange,
+  priceBandSettings, onPriceBandSettingsChange, onStockSnapshotChange
+}) => {
+  const [activeTab, setActiveTab] = useState<'strategy' | 'matrix' | 'details' | 'inventory' | 'pricing' | 'basket' | 'stores' | 'quality'>('strategy');
 
   // Filter States
   const [filterCategory, setFilterCategory] = useState<string>('All');
   const [filterBrand, setFilterBrand] = useState<string>('All');
   const [filterABC, setFilterABC] = useState<string>('All');
+  const [filterXYZ, setFilterXYZ] = useState<string>('All');
+  const [filterStore, setFilterStore] = useState<string>('All');
+  const [filterChannel, setFilterChannel] = useState<string>('All');
   const [excludeGifts, setExcludeGifts] = useState<boolean>(true); // 預設排除贈品
+  const [purchaseDraft, setPurchaseDraft] = useState<PurchaseOrderDraft | null>(null); // 採購單草稿 (切換分頁時保留)
+  const [forecastHorizon, setForecastHorizon] = useState<number>(3); // 月度趨勢圖顯示的預測月數
+
+  // 期間篩選與比較
+  const dataRange = useMemo(() => getDateRange(rawRecords), [rawRecords]);
+  const [datePreset, setDatePreset] = useState<DatePreset>('ALL');
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [baseline, setBaseline] = useState<ComparisonBaseline>('PREVIOUS_PERIOD');
+
+  const activeRange = useMemo((): DateRange | null => {
+    if (!dataRange) return null;
+    if (datePreset === 'CUSTOM') return customRange || dataRange;
+    return resolvePresetRange(datePreset, dataRange);
+  }, [dataRange, datePreset, customRange]);
+
+  // 去年同期需要前一年的資料；資料不足時明確提示，而不是顯示空白分析
+  const presetNotice = useMemo((): string | null => {
+    if (datePreset !== 'SAME_PERIOD_LAST_YEAR' || !dataRange || !activeRange) return null;
+    if (dataRange.start > activeRange.end) {
+      return `資料最早只到 ${dataRange.start}，沒有去年同期 (${activeRange.start} ~ ${activeRange.end}) 的銷售紀錄`;
+    }
+    if (dataRange.start > activeRange.start) {
+      return `資料自 ${dataRange.start} 開始，去年同期僅涵蓋部分期間`;
+    }
+    return null;
+  }, [datePreset, dataRange, activeRange]);
 
   // Extract Filter Options (from rawRecords for completeness)
   const categories = useMemo(() => ['All', ...Array.from(new Set(rawRecords.map(r => r.Category))).sort()], [rawRecords]);
   const brands = useMemo(() => ['All', ...Array.from(new Set(rawRecords.map(r => r.Brand))).sort()], [rawRecords]);
   const abcClasses = ['All', ABCClass.A, ABCClass.B, ABCClass.C];
+  const xyzClasses = ['All', XYZClass.X, XYZClass.Y, XYZClass.Z];
+  const stores = useMemo(() => listStores(rawRecords), [rawRecords]);
+  const channels = useMemo(() => listChannels(rawRecords), [rawRecords]);
+  const hasCost = useMemo(() => rawRecords.some(r => r.Cost !== undefined && r.Cost > 0), [rawRecords]);
 
-  // Dynamic Calculation based on filters
-  const filteredData = useMemo(() => {
+  // 整體 ABC-XYZ 分級 (依目前分級設定；舊紀錄的 performanceMetrics 可能沒有 XYZ)
+  const globalPerformance = useMemo(
+    () => analyzePerformance(rawRecords, classificationSettings),
+    [rawRecords, classificationSettings]
+  );
+
+  // 價格帶分界以完整資料計算，篩選時級距保持一致
+  const categoryBands = useMemo(
+    () => resolveCategoryBands(rawRecords, priceBandSettings),
+    [rawRecords, priceBandSettings]
+  );
+
+  // Dynamic Calculation based on filters (日期與門市以外的條件；期間比較需要完整的時間範圍)
+  const scopeRecords = useMemo(() => {
     let filteredRecords = rawRecords;
 
     if (filterCategory !== 'All') {
@@ -50,26 +136,75 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
     // ABC filtering is tricky because ABC is calculated based on cumulative performance. 
     // Filtering by ABC usually means "Show me items that ARE Class A in the global context".
     // So we first need to map which products are which class from the global context, then filter records.
-    if (filterABC !== 'All') {
-      // Get products that match the selected ABC class in the original analysis
+    if (filterABC !== 'All' || filterXYZ !== 'All') {
+      // Get products that match the selected ABC / XYZ class in the global analysis
       const targetProducts = new Set(
-        data.performanceMetrics
-          .filter(p => p.abcClass === filterABC)
+        globalPerformance
+          .filter(p => (filterABC === 'All' || p.abcClass === filterABC) && (filterXYZ === 'All' || p.xyzClass === filterXYZ))
           .map(p => p.productName)
       );
       filteredRecords = filteredRecords.filter(r => targetProducts.has(r.Product));
     }
 
+    return filteredRecords;
+  }, [rawRecords, filterCategory, filterBrand, filterABC, filterXYZ, excludeGifts, globalPerformance]);
+
+  // 門市 / 通路篩選
+  const matchesStore = useMemo(
+    () => (r: SalesRecord) =>
+      (filterStore === 'All' || r.Store === filterStore) && (filterChannel === 'All' || r.Channel === filterChannel),
+    [filterStore, filterChannel]
+  );
+
+  const dimensionRecords = useMemo(
+    () => filterStore === 'All' && filterChannel === 'All' ? scopeRecords : scopeRecords.filter(matchesStore),
+    [scopeRecords, filterStore, filterChannel, matchesStore]
+  );
+
+  const filteredRecords = useMemo(() => {
+    if (datePreset === 'ALL' || !activeRange) return dimensionRecords;
+    return filterByDateRange(dimensionRecords, activeRange);
+  }, [dimensionRecords, datePreset, activeRange]);
+
+  // 購物籃需要完整交易 (含其他類別、品牌)，只套用期間篩選；主商品為篩選範圍內的整體 A 類
+  const basketRecords = useMemo(() => {
+    const storeRecords = rawRecords.filter(matchesStore);
+    if (datePreset === 'ALL' || !activeRange) return storeRecords;
+    return filterByDateRange(storeRecords, activeRange);
+  }, [rawRecords, matchesStore, datePreset, activeRange]);
+
+  // 門市比較：套用門市以外的所有篩選 (通路仍適用)
+  const storeComparisonRecords = useMemo(() => {
+    const inPeriod = datePreset === 'ALL' || !activeRange ? scopeRecords : filterByDateRange(scopeRecords, activeRange);
+    return filterChannel === 'All' ? inPeriod : inPeriod.filter(r => r.Channel === filterChannel);
+  }, [scopeRecords, datePreset, activeRange, filterChannel]);
+
+  const basketMainProducts = useMemo(() => {
+    const inScope = new Set(filteredRecords.map(r => r.Product));
+    return globalPerformance.filter(p => p.abcClass === ABCClass.A && inScope.has(p.productName)).map(p => p.productName);
+  }, [filteredRecords, globalPerformance]);
+
+  const comparison = useMemo(() => {
+    if (!compareMode || !activeRange) return null;
+    return comparePeriods(dimensionRecords, activeRange, baselineRange(activeRange, baseline), classificationSettings, categoryBands);
+  }, [compareMode, activeRange, baseline, dimensionRecords, classificationSettings, categoryBands]);
+
+  const filteredData = useMemo(() => {
     // Re-run analysis on filtered records
-    const performanceMetrics = analyzePerformance(filteredRecords);
+    const performanceMetrics = analyzePerformance(filteredRecords, classificationSettings);
     const seasonality = analyzeSeasonality(filteredRecords);
-    const priceBands = analyzePriceBands(filteredRecords);
+    const priceBands = analyzePriceBands(filteredRecords, categoryBands);
     const brandDistribution = analyzeBrands(filteredRecords);
     const dailyTrend = analyzeDailyTrend(filteredRecords);
+    const forecast = forecastNextMonth(seasonality);
 
     // Filter decisions (decisions are static from Gemini, we just hide irrelevant ones)
+    // 生命週期以整體資料的本地判斷為準 (舊紀錄的決策可能是 AI 推測的)
     const productNames = new Set(performanceMetrics.map(p => p.productName));
-    const decisions = data.decisions.filter(d => productNames.has(d.productName));
+    const lifecycleMap = new Map(globalPerformance.map(p => [p.productName, p.lifecycle]));
+    const decisions = data.decisions
+      .filter(d => productNames.has(d.productName))
+      .map(d => ({ ...d, lifecycle: lifecycleMap.get(d.productName) ?? d.lifecycle }));
 
     return {
       performanceMetrics,
@@ -77,15 +212,103 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
       priceBands,
       brandDistribution,
       dailyTrend,
+      forecast,
       decisions
     };
-  }, [rawRecords, filterCategory, filterBrand, filterABC, excludeGifts, data.decisions, data.performanceMetrics]);
+  }, [filteredRecords, classificationSettings, categoryBands, data.decisions, globalPerformance]);
+
+  // 需求預測 (Holt-Winters 參數搜尋) 很耗時：只依門市、通路與期間重算，並依此快取
+  // 類別、品牌、分級、贈品等篩選只挑選品項 (贈品同樣消耗庫存，預測本來就計入)；未選門市與期間時沿用分析結果
+  const forecastCache = useRef<{ records: SalesRecord[]; byKey: Map<string, ReturnType<typeof forecastDemand>> }>({
+    records: rawRecords, byKey: new Map()
+  });
+  const demandForecast = useMemo(() => {
+    if (activeTab !== 'inventory') return null;
+    const periodKey = datePreset === 'ALL' || !activeRange ? 'ALL' : `${activeRange.start}~${activeRange.end}`;
+    if (filterStore === 'All' && filterChannel === 'All' && periodKey === 'ALL' && data.productForecasts) {
+      return { products: data.productForecasts, categories: data.categoryForecasts || [] };
+    }
+    const cache = forecastCache.current;
+    if (cache.records !== rawRecords) {
+      cache.records = rawRecords;
+      cache.byKey.clear();
+    }
+    const key = `${filterStore}|${filterChannel}|${periodKey}`;
+    // basketRecords 只套用門市、通路與期間篩選
+    if (!cache.byKey.has(key)) cache.byKey.set(key, forecastDemand(basketRecords));
+    return cache.byKey.get(key)!;
+  }, [activeTab, filterStore, filterChannel, datePreset, activeRange, basketRecords, rawRecords, data.productForecasts, data.categoryForecasts]);
+
+  // 庫存分頁同樣依篩選結果重算；ABC 服務水準沿用整體分級，滯銷天數以整份資料的最後日期為基準
+  const inventoryData = useMemo(() => {
+    if (!demandForecast) {
+      return {
+        inventoryMetrics: [], productForecasts: [], categoryForecasts: [], yoyComparison: [],
+        profitAnalysis: [], slowMovingAlerts: [], giftAttachments: []
+      };
+    }
+    // 選定期間時以期間結束日為基準
+    const lastDate = datePreset !== 'ALL' && activeRange ? activeRange.end : dataRange?.end;
+    const productNames = new Set(filteredRecords.map(r => r.Product));
+    const categoryNames = new Set(filteredRecords.map(r => r.Category));
+    const demand = {
+      products: demandForecast.products.filter(f => productNames.has(f.key)),
+      categories: demandForecast.categories.filter(f => categoryNames.has(f.key))
+    };
+    return {
+      inventoryMetrics: calculateInventoryMetrics(filteredRecords, demand.products, inventorySettings, globalPerformance),
+      productForecasts: demand.products,
+      categoryForecasts: demand.categories,
+      yoyComparison: calculateYoYComparison(filteredData.seasonality),
+      profitAnalysis: analyzeProfitMargin(filteredRecords),
+      slowMovingAlerts: detectSlowMoving(filteredRecords, 30, lastDate),
+      // 贈品多屬其他類別，以主商品是否在篩選範圍內判斷
+      giftAttachments: (data.giftAttachments || []).filter(g => productNames.has(g.mainProduct))
+    };
+  }, [
+    demandForecast, filteredRecords, filteredData.seasonality,
+    datePreset, activeRange, dataRange, inventorySettings, globalPerformance, data.giftAttachments
+  ]);
 
 
+  // 庫存快照 × 庫存指標 → 淨進貨量與缺貨風險；選定門市時只計該門市的庫存
+  // 快照沒有該門市的存放位置時不計算 (其他門市的庫存不能拿來對照單一門市的需求)
+  const stockResult = useMemo(() => {
+    if (!data.stockSnapshot || activeTab !== 'inventory') return { positions: [], unmatched: [], notice: undefined };
+    // 篩選範圍內的商品 (期間、門市以外的篩選)，範圍內但期間內沒賣的庫存列為呆滯
+    const scope = new Set<string>(scopeRecords.map(r => r.Product));
+    if (filterStore === 'All') {
+      return { ...calculateStockPositions(inventoryData.inventoryMetrics, data.stockSnapshot, rawRecords, scope), notice: undefined };
+    }
+    const storeLevels = data.stockSnapshot.levels.filter(l => l.location === filterStore);
+    if (storeLevels.length === 0) {
+      return { positions: [], unmatched: [], notice: `庫存快照沒有「${filterStore}」的庫存資料，無法計算此門市的補貨建議` };
+    }
+    const snapshot = { ...data.stockSnapshot, levels: storeLevels };
+    return { ...calculateStockPositions(inventoryData.inventoryMetrics, snapshot, rawRecords, scope), notice: undefined };
+  }, [activeTab, data.stockSnapshot, filterStore, inventoryData.inventoryMetrics, rawRecords, scopeRecords]);
+
   // Helpers
   const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
   const fmtNum = (n: number) => new Intl.NumberFormat('zh-TW').format(n);
 
+  // 月度趨勢 + 預測帶：預測線從最後一個實際月份接續
+  const trendChartData = useMemo(() => {
+    const actual: any[] = filteredData.seasonality
+      .filter(s => s.month !== 'Unknown')
+      .map(s => ({ month: s.month, revenue: s.revenue }));
+    const points = (filteredData.forecast.points || []).slice(0, forecastHorizon);
+    if (actual.length === 0 || points.length === 0) return actual;
+
+    const last = actual[actual.length - 1];
+    last.forecast = last.revenue;
+    last.band = [last.revenue, last.revenue];
+    return [
+      ...actual,
+      ...points.map(p => ({ month: p.month, forecast: p.revenue, band: [p.revenueLower, p.revenueUpper] }))
+    ];
+  }, [filteredData.seasonality, filteredData.forecast, forecastHorizon]);
+
   // Prepare Scatter Data
   const scatterData: any[] = filteredData.performanceMetrics.map(p => ({
     x: p.averagePrice,
@@ -99,11 +322,19 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
   const dataB = scatterData.filter(d => d.abc === ABCClass.B);
   const dataC = scatterData.filter(d => d.abc === ABCClass.C);
 
+  // 退貨率 (依退貨率排序，僅列出有退貨的項目)
+  const returnedProducts = filteredData.performanceMetrics
+    .filter(p => p.returnQty > 0)
+    .sort((a, b) => b.returnRate - a.returnRate);
+  const returnedBrands = filteredData.brandDistribution
+    .filter(b => b.returnQty > 0)
+    .sort((a, b) => b.returnRate - a.returnRate);
+
   const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6'];
 
   // CSV Export Logic
   const handleExport = () => {
-    const headers = ['決策標籤', '商品名稱', '類別', 'ABC分級', '生命週期', '分析理由', '行動建議', '總銷量', '平均單價'];
+    const headers = ['決策標籤', '商品名稱', '類別', 'ABC分級', 'XYZ分級', '生命週期', '分析理由', '行動建議', '總銷量', '平均單價', '退貨率%'];
     const rows = filteredData.decisions.map(d => {
       const metric = filteredData.performanceMetrics.find(m => m.productName === d.productName);
       return [
@@ -111,11 +342,13 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
         d.productName,
         d.category,
         metric?.abcClass || '-',
+        metric?.xyzClass || '-',
         d.lifecycle,
         d.reason,
         d.action,
         metric?.totalQty || 0,
-        metric?.averagePrice || 0
+        metric?.averagePrice || 0,
+        metric?.returnRate || 0
       ];
     });
 
@@ -148,49 +381,154 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
     <div className="space-y-6 animate-fade-in pb-12">
 
       {/* 0. Filter Bar */}
-      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 flex flex-col md:flex-row items-center gap-4">
-        <div className="flex items-center gap-2 text-gray-700 font-bold whitespace-nowrap">
-          <Filter className="w-5 h-5 text-blue-600" />
-          資料篩選
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 w-full">
-          <select
-            value={filterCategory}
-            onChange={e => setFilterCategory(e.target.value)}
-            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
-          >
-            <option value="All">所有類別 (Category)</option>
-            {categories.filter(c => c !== 'All').map(c => <option key={c} value={c}>{c}</option>)}
-          </select>
-          <select
-            value={filterBrand}
-            onChange={e => setFilterBrand(e.target.value)}
-            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
-          >
-            <option value="All">所有品牌 (Brand)</option>
-            {brands.filter(b => b !== 'All').map(b => <option key={b} value={b}>{b}</option>)}
-          </select>
-          <select
-            value={filterABC}
-            onChange={e => setFilterABC(e.target.value)}
-            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
-          >
-            <option value="All">所有分級 (ABC Class)</option>
-            {abcClasses.filter(c => c !== 'All').map(c => <option key={c} value={c}>{c}</option>)}
-          </select>
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-3">
+        <div className="flex flex-col md:flex-row items-center gap-4">
+          <div className="flex items-center gap-2 text-gray-700 font-bold whitespace-nowrap">
+            <Filter className="w-5 h-5 text-blue-600" />
+            資料篩選
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 w-full">
+            <select
+              value={filterCategory}
+              onChange={e => setFilterCategory(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+            >
+              <option value="All">所有類別 (Category)</option>
+              {categories.filter(c => c !== 'All').map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select
+              value={filterBrand}
+              onChange={e => setFilterBrand(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+            >
+              <option value="All">所有品牌 (Brand)</option>
+              {brands.filter(b => b !== 'All').map(b => <option key={b} value={b}>{b}</option>)}
+            </select>
+            <select
+              value={filterABC}
+              onChange={e => setFilterABC(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+            >
+              <option value="All">所有分級 (ABC Class)</option>
+              {abcClasses.filter(c => c !== 'All').map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select
+              value={filterXYZ}
+              onChange={e => setFilterXYZ(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5"
+            >
+              <option value="All">所有需求穩定度 (XYZ)</option>
+              {xyzClasses.filter(c => c !== 'All').map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          {/* 贈品排除開關 */}
+          <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={excludeGifts}
+              onChange={e => setExcludeGifts(e.target.checked)}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">排除贈品</span>
+          </label>
         </div>
-        {/* 贈品排除開關 */}
-        <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
-          <input
-            type="checkbox"
-            checked={excludeGifts}
-            onChange={e => setExcludeGifts(e.target.checked)}
-            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
-          />
-          <span className="text-sm text-gray-700">排除贈品</span>
-        </label>
+
+        {/* 門市 / 通路：只在資料有對應欄位時顯示 */}
+        {(stores.length > 0 || channels.length > 0) && (
+          <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-gray-100">
+            <div className="flex items-center gap-2 text-gray-700 font-bold whitespace-nowrap">
+              <Store className="w-5 h-5 text-blue-600" />
+              門市
+            </div>
+            {stores.length > 0 && (
+              <select
+                value={filterStore}
+                onChange={e => setFilterStore(e.target.value)}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+              >
+                <option value="All">所有門市 ({stores.length})</option>
+                {stores.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            )}
+            {channels.length > 0 && (
+              <select
+                value={filterChannel}
+                onChange={e => setFilterChannel(e.target.value)}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+              >
+                <option value="All">所有通路</option>
+                {channels.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* 期間篩選：預設區間以資料最後日期為基準 */}
+        {dataRange && (
+          <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-gray-100">
+            <div className="flex items-center gap-2 text-gray-700 font-bold whitespace-nowrap">
+              <CalendarRange className="w-5 h-5 text-blue-600" />
+              期間
+            </div>
+            <select
+              value={datePreset}
+              onChange={e => setDatePreset(e.target.value as DatePreset)}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+            >
+              {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map(p => (
+                <option key={p} value={p}>{DATE_PRESET_LABELS[p]}</option>
+              ))}
+            </select>
+            {datePreset === 'CUSTOM' ? (
+              <>
+                <input
+                  type="date"
+                  value={(customRange || dataRange).start}
+                  onChange={e => e.target.value && setCustomRange({ ...(customRange || dataRange), start: e.target.value })}
+                  className="bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+                />
+                <span className="text-gray-400">~</span>
+                <input
+                  type="date"
+                  value={(customRange || dataRange).end}
+                  onChange={e => e.target.value && setCustomRange({ ...(customRange || dataRange), end: e.target.value })}
+                  className="bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+                />
+              </>
+            ) : (
+              activeRange && <span className="text-sm text-gray-500">{activeRange.start} ~ {activeRange.end}</span>
+            )}
+            {presetNotice && (
+              <span className="flex items-center gap-1 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-2 py-1">
+                <AlertTriangle className="w-4 h-4" /> {presetNotice}
+              </span>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap md:ml-auto">
+              <input
+                type="checkbox"
+                checked={compareMode}
+                onChange={e => setCompareMode(e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">期間比較</span>
+            </label>
+            {compareMode && (
+              <select
+                value={baseline}
+                onChange={e => setBaseline(e.target.value as ComparisonBaseline)}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-2"
+              >
+                {(Object.keys(BASELINE_LABELS) as ComparisonBaseline[]).map(b => (
+                  <option key={b} value={b}>{BASELINE_LABELS[b]}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
       </div>
 
+      {comparison && <PeriodComparisonPanel comparison={comparison} baselineLabel={BASELINE_LABELS[baseline]} />}
+
       {/* 1. High-Level Metrics Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
@@ -229,11 +567,14 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
       <div className="bg-gradient-to-r from-slate-900 to-slate-800 rounded-xl p-6 text-white shadow-lg">
         <h2 className="text-lg font-bold mb-3 flex items-center gap-2 text-emerald-400">
           <TrendingUp className="w-5 h-5" />
-          AI 策略摘要 (Global)
+          {data.decisionSource === 'RULES' ? '策略摘要 (規則引擎)' : 'AI 策略摘要 (Global)'}
         </h2>
         <p className="leading-relaxed text-slate-200">
           {data.overallSummary}
         </p>
+        {data.aiError && (
+          <p className="text-xs text-amber-300 mt-3">AI 改寫未完成 ({data.aiError})，決策清單為規則引擎結果</p>
+        )}
       </div>
 
       {/* 3. Main Navigation */}
@@ -250,6 +591,26 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
         >
           📦 庫存建議
         </button>
+        <button
+          onClick={() => setActiveTab('pricing')}
+          className={`flex-1 py-3 md:py-4 font-medium text-xs md:text-sm transition-colors border-b-2 ${activeTab === 'pricing' ? 'border-blue-600 text-blue-600 bg-blue-50/50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+        >
+          💲 價格促銷
+        </button>
+        <button
+          onClick={() => setActiveTab('basket')}
+          className={`flex-1 py-3 md:py-4 font-medium text-xs md:text-sm transition-colors border-b-2 ${activeTab === 'basket' ? 'border-blue-600 text-blue-600 bg-blue-50/50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+        >
+          🛒 購物籃
+        </button>
+        {stores.length > 0 && (
+          <button
+            onClick={() => setActiveTab('stores')}
+            className={`flex-1 py-3 md:py-4 font-medium text-xs md:text-sm transition-colors border-b-2 ${activeTab === 'stores' ? 'border-blue-600 text-blue-600 bg-blue-50/50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            🏬 門市比較
+          </button>
+        )}
         <button
           onClick={() => setActiveTab('matrix')}
           className={`flex-1 py-3 md:py-4 font-medium text-xs md:text-sm transition-colors border-b-2 ${activeTab === 'matrix' ? 'border-blue-600 text-blue-600 bg-blue-50/50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
@@ -262,6 +623,14 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
         >
           📋 決策清單
         </button>
+        {data.dataQuality && (
+          <button
+            onClick={() => setActiveTab('quality')}
+            className={`flex-1 py-3 md:py-4 font-medium text-xs md:text-sm transition-colors border-b-2 ${activeTab === 'quality' ? 'border-blue-600 text-blue-600 bg-blue-50/50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            🧹 資料品質{data.dataQuality.issues.length > 0 && ` (${data.dataQuality.issues.length})`}
+          </button>
+        )}
       </div>
 
       {/* 4. Tab Content */}
@@ -350,10 +719,20 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
 
               {/* Seasonality */}
               <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-                <h3 className="font-bold text-gray-800 mb-6">月度銷售趨勢</h3>
+                <h3 className="font-bold text-gray-800 mb-6 flex justify-between items-center">
+                  <span>月度銷售趨勢</span>
+                  <select
+                    value={forecastHorizon}
+                    onChange={e => setForecastHorizon(Number(e.target.value))}
+                    className="text-xs font-normal bg-gray-50 border border-gray-300 rounded p-1"
+                  >
+                    <option value={0}>不顯示預測</option>
+                    {[1, 2, 3, 4, 5, 6].map(h => <option key={h} value={h}>預測 {h} 個月</option>)}
+                  </select>
+                </h3>
                 <div className="h-[300px]">
                   <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={filteredData.seasonality}>
+                    <ComposedChart data={trendChartData}>
                       <defs>
                         <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
                           <stop offset="5%" stopColor="#10b981" stopOpacity={0.8} />
@@ -363,11 +742,20 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                       <XAxis dataKey="month" stroke="#64748b" />
                       <YAxis stroke="#64748b" tickFormatter={(val) => `${val / 1000}k`} />
                       <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                      <Tooltip formatter={(val: number) => fmt(val)} />
+                      <Tooltip formatter={(val: any) => Array.isArray(val) ? `${fmt(val[0])} ~ ${fmt(val[1])}` : fmt(val)} />
                       <Area type="monotone" dataKey="revenue" name="總營收" stroke="#10b981" fillOpacity={1} fill="url(#colorRev)" />
-                    </AreaChart>
+                      <Area type="monotone" dataKey="band" name={`預測區間 (${filteredData.forecast.intervalLevel ?? 80}%)`} stroke="none" fill="#3b82f6" fillOpacity={0.15} />
+                      <Line type="monotone" dataKey="forecast" name="預測營收" stroke="#3b82f6" strokeDasharray="5 5" strokeWidth={2} dot={false} />
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
+                {forecastHorizon > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    預測方法：{filteredData.forecast.method}
+                    {filteredData.forecast.backtest?.revenueMape != null &&
+                      ` | 回測 MAPE ${filteredData.forecast.backtest.revenueMape}% (最後 ${filteredData.forecast.backtest.holdoutMonths} 個月)`}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -397,7 +785,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
 
               {/* Price Bands */}
               <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-                <h3 className="font-bold text-gray-800 mb-6">價格帶成交結構</h3>
+                <h3 className="font-bold text-gray-800 mb-6">價格帶成交結構 (類別內相對價位)</h3>
                 <div className="h-[300px]">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={filteredData.priceBands} layout="vertical">
@@ -415,6 +803,65 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                 </div>
               </div>
             </div>
+
+            {/* Row 3.5: Category × Price Band */}
+            <PriceBandHeatmap
+              records={filteredRecords}
+              bands={categoryBands}
+              settings={priceBandSettings}
+              onSettingsChange={onPriceBandSettingsChange}
+            />
+
+            {/* Row 4: Return Rate (only when returns exist) */}
+            {returnedProducts.length > 0 && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Brand Return Rate */}
+                <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+                  <h3 className="font-bold text-gray-800 mb-6 flex items-center gap-2">
+                    <Undo2 className="w-5 h-5 text-red-500" />
+                    品牌退貨率 (Return Rate)
+                  </h3>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={returnedBrands} layout="vertical" margin={{ left: 30 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} />
+                        <XAxis type="number" unit="%" />
+                        <YAxis dataKey="brand" type="category" width={100} tick={{ fontSize: 11 }} interval={0} />
+                        <Tooltip formatter={(val: number) => `${val}%`} cursor={{ fill: 'transparent' }} />
+                        <Bar dataKey="returnRate" name="退貨率 %" fill="#ef4444" radius={[0, 4, 4, 0]} barSize={20} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                {/* Product Return Rate */}
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                  <div className="p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-bold text-gray-700">高退貨率商品 (Top 10)</h3>
+                  </div>
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                      <tr>
+                        <th className="px-4 py-3">商品名稱</th>
+                        <th className="px-4 py-3 text-right">售出</th>
+                        <th className="px-4 py-3 text-right">退貨</th>
+                        <th className="px-4 py-3 text-right">退貨率</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {returnedProducts.slice(0, 10).map((p, idx) => (
+                        <tr key={idx} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 font-medium text-gray-800 max-w-[200px] truncate" title={p.productName}>{p.productName}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{fmtNum(p.grossQty)}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{fmtNum(p.returnQty)}</td>
+                          <td className={`px-4 py-3 text-right font-bold ${p.returnRate >= 10 ? 'text-red-600' : p.returnRate >= 5 ? 'text-amber-600' : 'text-gray-600'}`}>{p.returnRate}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -423,17 +870,17 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
           <div className="space-y-6">
 
             {/* 需求預測卡片 */}
-            {data.forecast && (
+            {filteredData.forecast && (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-gradient-to-br from-blue-500 to-blue-600 p-6 rounded-xl text-white shadow-lg">
                   <div className="flex items-center gap-2 text-blue-100 text-sm mb-2">
                     <TrendingUp className="w-4 h-4" />
                     下月預測營收
                   </div>
-                  <div className="text-3xl font-bold">{fmt(data.forecast.nextMonthRevenue)}</div>
+                  <div className="text-3xl font-bold">{fmt(filteredData.forecast.nextMonthRevenue)}</div>
                   <div className="mt-2 text-sm text-blue-200">
-                    預測方法：{data.forecast.method} |
-                    信心度：<span className={`font-bold ${data.forecast.confidence === 'HIGH' ? 'text-green-300' : data.forecast.confidence === 'MEDIUM' ? 'text-yellow-300' : 'text-red-300'}`}>{data.forecast.confidence}</span>
+                    預測方法：{filteredData.forecast.method} |
+                    信心度：<span className={`font-bold ${filteredData.forecast.confidence === 'HIGH' ? 'text-green-300' : filteredData.forecast.confidence === 'MEDIUM' ? 'text-yellow-300' : 'text-red-300'}`}>{filteredData.forecast.confidence}</span>
                   </div>
                 </div>
                 <div className="bg-gradient-to-br from-emerald-500 to-emerald-600 p-6 rounded-xl text-white shadow-lg">
@@ -441,10 +888,10 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                     <Box className="w-4 h-4" />
                     預測銷售數量
                   </div>
-                  <div className="text-3xl font-bold">{fmtNum(data.forecast.nextMonthQty)} 件</div>
+                  <div className="text-3xl font-bold">{fmtNum(filteredData.forecast.nextMonthQty)} 件</div>
                   <div className="mt-2 text-sm text-emerald-200">
-                    趨勢：{data.forecast.trend === 'UP' ? '📈 上升' : data.forecast.trend === 'DOWN' ? '📉 下降' : '➡️ 持平'}
-                    {data.forecast.trendPercent !== 0 && ` (${data.forecast.trendPercent > 0 ? '+' : ''}${data.forecast.trendPercent}%)`}
+                    趨勢：{filteredData.forecast.trend === 'UP' ? '📈 上升' : filteredData.forecast.trend === 'DOWN' ? '📉 下降' : '➡️ 持平'}
+                    {filteredData.forecast.trendPercent !== 0 && ` (${filteredData.forecast.trendPercent > 0 ? '+' : ''}${filteredData.forecast.trendPercent}%)`}
                   </div>
                 </div>
                 <div className="bg-gradient-to-br from-purple-500 to-purple-600 p-6 rounded-xl text-white shadow-lg">
@@ -452,25 +899,78 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                     <Package className="w-4 h-4" />
                     建議總進貨量
                   </div>
-                  <div className="text-3xl font-bold">
-                    {fmtNum(data.inventoryMetrics?.reduce((a, b) => a + b.suggestedOrderQty, 0) || 0)} 件
-                  </div>
-                  <div className="mt-2 text-sm text-purple-200">
-                    涵蓋 {data.inventoryMetrics?.length || 0} 項商品
-                  </div>
+                  {stockResult.positions.length > 0 ? (
+                    <>
+                      <div className="text-3xl font-bold">
+                        {fmtNum(stockResult.positions.reduce((a, b) => a + b.netOrderQty, 0))} 件
+                      </div>
+                      <div className="mt-2 text-sm text-purple-200">
+                        已扣除現有及在途庫存 | 涵蓋 {stockResult.positions.length} 項商品
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-3xl font-bold">
+                        {fmtNum(inventoryData.inventoryMetrics?.reduce((a, b) => a + b.suggestedOrderQty, 0) || 0)} 件
+                      </div>
+                      <div className="mt-2 text-sm text-purple-200">
+                        涵蓋 {inventoryData.inventoryMetrics?.length || 0} 項商品 (未扣除庫存)
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 未來 6 個月預測 (含預測區間) */}
+            {filteredData.forecast?.points && filteredData.forecast.points.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+                  <h3 className="font-bold text-gray-700 flex items-center gap-2">
+                    <Calendar className="w-5 h-5 text-blue-500" />
+                    未來 {filteredData.forecast.points.length} 個月預測
+                  </h3>
+                  <span className="text-xs text-gray-500">
+                    {filteredData.forecast.intervalLevel}% 預測區間
+                    {filteredData.forecast.backtest && ` | 回測 (最後 ${filteredData.forecast.backtest.holdoutMonths} 個月, ${filteredData.forecast.backtest.method === filteredData.forecast.methodCode ? '同方法' : '訓練期較短改用較簡單方法'})：營收 MAPE ${filteredData.forecast.backtest.revenueMape ?? '-'}%、銷量 MAPE ${filteredData.forecast.backtest.qtyMape ?? '-'}%`}
+                  </span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-600 font-medium">
+                      <tr>
+                        <th className="p-3">月份</th>
+                        <th className="p-3 text-right">預測營收</th>
+                        <th className="p-3 text-right">營收區間</th>
+                        <th className="p-3 text-right">預測銷量</th>
+                        <th className="p-3 text-right">銷量區間</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {filteredData.forecast.points.map(p => (
+                        <tr key={p.month} className="hover:bg-gray-50">
+                          <td className="p-3 font-medium text-gray-800">{p.month}</td>
+                          <td className="p-3 text-right font-bold text-blue-600">{fmt(p.revenue)}</td>
+                          <td className="p-3 text-right text-gray-500">{fmt(p.revenueLower)} ~ {fmt(p.revenueUpper)}</td>
+                          <td className="p-3 text-right font-bold text-emerald-600">{fmtNum(p.qty)}</td>
+                          <td className="p-3 text-right text-gray-500">{fmtNum(p.qtyLower)} ~ {fmtNum(p.qtyUpper)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               </div>
             )}
 
             {/* 滯銷品警示 */}
-            {data.slowMovingAlerts && data.slowMovingAlerts.length > 0 && (
+            {inventoryData.slowMovingAlerts && inventoryData.slowMovingAlerts.length > 0 && (
               <div className="bg-red-50 border border-red-200 rounded-xl p-6">
                 <h3 className="font-bold text-red-800 mb-4 flex items-center gap-2">
                   <AlertTriangle className="w-5 h-5" />
-                  滯銷品警示 ({data.slowMovingAlerts.length} 項需關注)
+                  滯銷品警示 ({inventoryData.slowMovingAlerts.length} 項需關注)
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {data.slowMovingAlerts.slice(0, 6).map((alert, idx) => (
+                  {inventoryData.slowMovingAlerts.slice(0, 6).map((alert, idx) => (
                     <div key={idx} className={`p-4 rounded-lg border ${alert.riskLevel === 'HIGH' ? 'bg-red-100 border-red-300' :
                       alert.riskLevel === 'MEDIUM' ? 'bg-amber-100 border-amber-300' :
                         'bg-gray-100 border-gray-300'
@@ -491,8 +991,33 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
               </div>
             )}
 
+            {/* 庫存快照與補貨建議 */}
+            <StockSnapshotPanel
+              snapshot={data.stockSnapshot}
+              positions={stockResult.positions}
+              unmatched={stockResult.unmatched}
+              notice={stockResult.notice}
+              onSnapshotChange={onStockSnapshotChange}
+            />
+
+            {/* 採購單草稿 */}
+            {inventoryData.inventoryMetrics && inventoryData.inventoryMetrics.length > 0 && (
+              <PurchaseOrderBuilder
+                metrics={inventoryData.inventoryMetrics}
+                positions={stockResult.positions}
+                records={rawRecords}
+                draft={purchaseDraft}
+                onDraftChange={setPurchaseDraft}
+              />
+            )}
+
+            {/* 品項 / 類別需求預測 */}
+            {inventoryData.productForecasts && inventoryData.productForecasts.length > 0 && (
+              <DemandForecastPanel products={inventoryData.productForecasts} categories={inventoryData.categoryForecasts || []} />
+            )}
+
             {/* 庫存指標表格 */}
-            {data.inventoryMetrics && data.inventoryMetrics.length > 0 && (
+            {inventoryData.inventoryMetrics && inventoryData.inventoryMetrics.length > 0 && (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                 <div className="p-4 border-b border-gray-100 bg-gray-50">
                   <h3 className="font-bold text-gray-700 flex items-center gap-2">
@@ -506,21 +1031,36 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                       <tr>
                         <th className="px-4 py-3">商品名稱</th>
                         <th className="px-4 py-3 text-right">日均銷量</th>
-                        <th className="px-4 py-3 text-right">銷售波動 (σ)</th>
+                        <th className="px-4 py-3 text-right">週均銷量</th>
+                        <th className="px-4 py-3 text-right">動銷天數</th>
+                        <th className="px-4 py-3 text-right">日銷量波動 (σ)</th>
                         <th className="px-4 py-3 text-right">安全庫存</th>
                         <th className="px-4 py-3 text-right">再訂購點</th>
                         <th className="px-4 py-3 text-right">建議進貨量</th>
+                        <th className="px-4 py-3">依據</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
-                      {data.inventoryMetrics.slice(0, 20).map((item, idx) => (
+                      {inventoryData.inventoryMetrics.slice(0, 20).map((item, idx) => (
                         <tr key={idx} className="hover:bg-gray-50">
                           <td className="px-4 py-3 font-medium text-gray-800 max-w-[200px] truncate" title={item.productName}>{item.productName}</td>
                           <td className="px-4 py-3 text-right text-gray-600">{item.avgDailySales}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{item.avgWeeklySales ?? '-'}</td>
+                          <td className="px-4 py-3 text-right text-gray-600">{item.sellingDayRatio != null ? `${item.sellingDayRatio}%` : '-'}</td>
                           <td className="px-4 py-3 text-right text-gray-600">{item.salesVariance}</td>
                           <td className="px-4 py-3 text-right font-medium text-amber-600">{item.safetyStock}</td>
                           <td className="px-4 py-3 text-right font-medium text-blue-600">{item.reorderPoint}</td>
                           <td className="px-4 py-3 text-right font-bold text-emerald-600">{item.suggestedOrderQty}</td>
+                          <td className="px-4 py-3 text-xs text-gray-500">
+                            {item.forecastMethod ? FORECAST_METHOD_LABELS[item.forecastMethod] : '日均 × 30'}
+                            {item.leadTimeDays !== undefined && (
+                              <div className="text-gray-400">
+                                前置 {item.leadTimeDays} 天 · 服務水準 {item.serviceLevel}%
+                                {item.rawOrderQty !== undefined && item.rawOrderQty !== item.suggestedOrderQty &&
+                                  ` · 需求 ${item.rawOrderQty} → MOQ ${item.moq} / 每箱 ${item.packSize}`}
+                              </div>
+                            )}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -529,8 +1069,48 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
               </div>
             )}
 
+            {/* 贈品配套需求 */}
+            {inventoryData.giftAttachments && inventoryData.giftAttachments.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 bg-gray-50">
+                  <h3 className="font-bold text-gray-700 flex items-center gap-2">
+                    <Gift className="w-5 h-5 text-pink-500" />
+                    贈品配套需求 (Top 20)
+                  </h3>
+                  <p className="text-xs text-gray-500 mt-1">依主商品建議進貨量推算贈品備貨</p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                      <tr>
+                        <th className="px-4 py-3">主商品</th>
+                        <th className="px-4 py-3">贈品</th>
+                        <th className="px-4 py-3 text-right">每台搭贈數</th>
+                        <th className="px-4 py-3 text-right">每台贈品成本</th>
+                        <th className="px-4 py-3 text-right">建議贈品備貨</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {inventoryData.giftAttachments.slice(0, 20).map((item, idx) => {
+                        const mainOrder = inventoryData.inventoryMetrics?.find(m => m.productName === item.mainProduct)?.suggestedOrderQty || 0;
+                        return (
+                          <tr key={idx} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 font-medium text-gray-800 max-w-[200px] truncate" title={item.mainProduct}>{item.mainProduct}</td>
+                            <td className="px-4 py-3 text-gray-600 max-w-[200px] truncate" title={item.giftProduct}>{item.giftProduct}</td>
+                            <td className="px-4 py-3 text-right text-gray-600">{item.giftQtyPerSale}</td>
+                            <td className="px-4 py-3 text-right font-medium text-pink-600">{item.giftCost > 0 ? fmt(item.giftCostPerSale) : '-'}</td>
+                            <td className="px-4 py-3 text-right font-bold text-emerald-600">{Math.ceil(mainOrder * item.giftQtyPerSale)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* 同期比較圖表 */}
-            {data.yoyComparison && data.yoyComparison.length > 0 && (
+            {inventoryData.yoyComparison && inventoryData.yoyComparison.length > 0 && (
               <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
                 <h3 className="font-bold text-gray-800 mb-6 flex items-center gap-2">
                   <Percent className="w-5 h-5 text-indigo-500" />
@@ -538,7 +1118,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                 </h3>
                 <div className="h-[300px]">
                   <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart data={data.yoyComparison}>
+                    <ComposedChart data={inventoryData.yoyComparison}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} />
                       <XAxis dataKey="month" stroke="#64748b" tick={{ fontSize: 12 }} />
                       <YAxis yAxisId="left" stroke="#64748b" tickFormatter={(val) => `${val / 1000}k`} />
@@ -554,7 +1134,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
             )}
 
             {/* 毛利分析 */}
-            {data.profitAnalysis && data.profitAnalysis.length > 0 && (
+            {inventoryData.profitAnalysis && inventoryData.profitAnalysis.length > 0 && (
               <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
                 <h3 className="font-bold text-gray-800 mb-6 flex items-center gap-2">
                   <DollarSign className="w-5 h-5 text-green-500" />
@@ -562,13 +1142,13 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                 </h3>
                 <div className="h-[300px]">
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={data.profitAnalysis.slice(0, 10)} layout="vertical" margin={{ left: 20 }}>
+                    <BarChart data={inventoryData.profitAnalysis.slice(0, 10)} layout="vertical" margin={{ left: 20 }}>
                       <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={false} />
                       <XAxis type="number" unit="%" />
                       <YAxis dataKey="productName" type="category" width={150} tick={{ fontSize: 11 }} interval={0} />
                       <Tooltip formatter={(val: number) => `${val}%`} />
                       <Bar dataKey="marginPercent" name="毛利率 %" fill="#10b981" radius={[0, 4, 4, 0]} barSize={20}>
-                        {data.profitAnalysis.slice(0, 10).map((entry, index) => (
+                        {inventoryData.profitAnalysis.slice(0, 10).map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={entry.marginPercent >= 30 ? '#10b981' : entry.marginPercent >= 15 ? '#f59e0b' : '#ef4444'} />
                         ))}
                       </Bar>
@@ -579,7 +1159,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
             )}
 
             {/* 無資料時的空狀態 */}
-            {(!data.inventoryMetrics || data.inventoryMetrics.length === 0) && (!data.forecast) && (
+            {(!inventoryData.inventoryMetrics || inventoryData.inventoryMetrics.length === 0) && (!filteredData.forecast) && (
               <div className="bg-gray-50 rounded-xl p-12 text-center">
                 <Package className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-xl font-bold text-gray-500 mb-2">暫無庫存分析資料</h3>
@@ -590,45 +1170,80 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
           </div>
         )}
 
+        {/* === TAB: PRICING (價格彈性與促銷) === */}
+        {activeTab === 'pricing' && <PriceElasticityPanel records={filteredRecords} />}
+
+        {/* === TAB: BASKET (購物籃與搭售) === */}
+        {activeTab === 'basket' && <MarketBasketPanel records={basketRecords} mainProducts={basketMainProducts} />}
+
+        {/* === TAB: STORES (門市比較) === */}
+        {activeTab === 'stores' && (
+          <div className="space-y-6">
+            <StoreComparisonPanel
+              records={storeComparisonRecords}
+              performance={globalPerformance}
+              inventorySettings={inventorySettings}
+              onSelectStore={setFilterStore}
+            />
+            <StockTransferPanel
+              records={storeComparisonRecords}
+              snapshot={data.stockSnapshot}
+              performance={globalPerformance}
+              inventorySettings={inventorySettings}
+            />
+          </div>
+        )}
+
         {/* === TAB: MATRIX === */}
         {activeTab === 'matrix' && (
-          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="font-bold text-gray-800">商品定位矩陣 (Price vs Volume)</h3>
-              <div className="text-xs text-gray-500 bg-gray-50 px-3 py-1 rounded-full">
-                圓圈大小 = 總營收貢獻
+          <div className="space-y-6">
+            <ClassificationSettingsEditor
+              settings={classificationSettings}
+              hasCost={hasCost}
+              onSettingsChange={onClassificationSettingsChange}
+            />
+            <AbcXyzMatrix
+              performance={filteredData.performanceMetrics}
+              basisLabel={BASIS_LABELS[classificationSettings.basis === 'GROSS_PROFIT' && !hasCost ? 'REVENUE' : classificationSettings.basis]}
+            />
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="font-bold text-gray-800">商品定位矩陣 (Price vs Volume)</h3>
+                <div className="text-xs text-gray-500 bg-gray-50 px-3 py-1 rounded-full">
+                  圓圈大小 = 總營收貢獻
+                </div>
+              </div>
+              <div className="h-[500px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="x" name="平均單價" unit=" TWD" stroke="#94a3b8" label={{ value: '平均單價 (High Price)', position: 'bottom', offset: 0 }} />
+                    <YAxis type="number" dataKey="y" name="銷售數量" unit=" pcs" stroke="#94a3b8" label={{ value: '銷售量 (High Vol)', angle: -90, position: 'left' }} />
+                    <ZAxis type="number" dataKey="z" range={[50, 400]} />
+                    <Tooltip cursor={{ strokeDasharray: '3 3' }} content={({ active, payload }) => {
+                      if (active && payload && payload.length) {
+                        const d = payload[0].payload;
+                        return (
+                          <div className="bg-white p-3 border border-gray-200 shadow-lg rounded-lg text-sm">
+                            <p className="font-bold mb-1">{d.name}</p>
+                            <p className="text-gray-600">單價: {fmt(d.x)}</p>
+                            <p className="text-gray-600">銷量: {d.y}</p>
+                            <p className="text-blue-600 font-medium">營收: {fmt(d.z)}</p>
+                            <p className="mt-1 text-xs text-gray-400">Class: {d.abc}</p>
+                          </div>
+                        );
+                      }
+                      return null;
+                    }} />
+
+                    <Scatter name="A類 (高貢獻)" data={dataA} fill="#10b981" />
+                    <Scatter name="B類 (一般)" data={dataB} fill="#f59e0b" />
+                    <Scatter name="C類 (長尾)" data={dataC} fill="#ef4444" />
+
+                    <Legend />
+                  </ScatterChart>
+                </ResponsiveContainer>
               </div>
-            </div>
-            <div className="h-[500px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis type="number" dataKey="x" name="平均單價" unit=" TWD" stroke="#94a3b8" label={{ value: '平均單價 (High Price)', position: 'bottom', offset: 0 }} />
-                  <YAxis type="number" dataKey="y" name="銷售數量" unit=" pcs" stroke="#94a3b8" label={{ value: '銷售量 (High Vol)', angle: -90, position: 'left' }} />
-                  <ZAxis type="number" dataKey="z" range={[50, 400]} />
-                  <Tooltip cursor={{ strokeDasharray: '3 3' }} content={({ active, payload }) => {
-                    if (active && payload && payload.length) {
-                      const d = payload[0].payload;
-                      return (
-                        <div className="bg-white p-3 border border-gray-200 shadow-lg rounded-lg text-sm">
-                          <p className="font-bold mb-1">{d.name}</p>
-                          <p className="text-gray-600">單價: {fmt(d.x)}</p>
-                          <p className="text-gray-600">銷量: {d.y}</p>
-                          <p className="text-blue-600 font-medium">營收: {fmt(d.z)}</p>
-                          <p className="mt-1 text-xs text-gray-400">Class: {d.abc}</p>
-                        </div>
-                      );
-                    }
-                    return null;
-                  }} />
-
-                  <Scatter name="A類 (高貢獻)" data={dataA} fill="#10b981" />
-                  <Scatter name="B類 (一般)" data={dataB} fill="#f59e0b" />
-                  <Scatter name="C類 (長尾)" data={dataC} fill="#ef4444" />
-
-                  <Legend />
-                </ScatterChart>
-              </ResponsiveContainer>
             </div>
           </div>
         )}
@@ -637,7 +1252,12 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
         {activeTab === 'details' && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
-              <h3 className="font-bold text-gray-700">行動建議清單 ({filteredData.decisions.length})</h3>
+              <h3 className="font-bold text-gray-700">
+                行動建議清單 ({filteredData.decisions.length})
+                <span className="ml-2 text-xs font-normal text-gray-400">
+                  {data.decisionSource === 'RULES' ? '依決策規則產生' : data.decisionSource === 'AI' ? '規則決策，代表性商品理由經 AI 改寫' : ''}
+                </span>
+              </h3>
               <button
                 onClick={handleExport}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 text-sm hover:bg-gray-50 transition-colors shadow-sm font-medium"
@@ -659,7 +1279,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100 text-sm">
-                  {filteredData.decisions.map((item, idx) => {
+                  {filteredData.decisions.slice(0, MAX_DECISION_ROWS).map((item, idx) => {
                     let tagStyle = 'bg-gray-100 text-gray-700';
                     let Icon = Activity;
                     if (item.tag === DecisionTag.MAIN_STOCK) { tagStyle = 'bg-emerald-100 text-emerald-800 border-emerald-200'; Icon = CheckCircle; }
@@ -669,6 +1289,7 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
 
                     // 取得商品的銷量/金額數據
                     const metric = filteredData.performanceMetrics.find(m => m.productName === item.productName);
+                    const lifecycleSignals = globalPerformance.find(m => m.productName === item.productName)?.lifecycleSignals;
 
                     return (
                       <tr key={idx} className="hover:bg-slate-50 transition-colors">
@@ -689,7 +1310,10 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                           {metric ? fmt(metric.totalAmount) : '-'}
                         </td>
                         <td className="px-4 py-4">
-                          <span className={`px-2 py-0.5 rounded text-xs border ${getLifecycleColor(item.lifecycle as LifecycleStage)}`}>
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs border ${getLifecycleColor(item.lifecycle as LifecycleStage)}`}
+                            title={lifecycleSignals ? describeLifecycleSignals(lifecycleSignals) : undefined}
+                          >
                             {item.lifecycle}
                           </span>
                         </td>
@@ -702,10 +1326,18 @@ const AnalysisDashboard: React.FC<Props> = ({ data, rawRecords }) => {
                   })}
                 </tbody>
               </table>
+              {filteredData.decisions.length > MAX_DECISION_ROWS && (
+                <p className="p-3 text-xs text-gray-400 text-center">僅顯示前 {MAX_DECISION_ROWS} 項，完整清單請匯出 CSV</p>
+              )}
             </div>
           </div>
         )}
 
+        {/* === TAB: DATA QUALITY === */}
+        {activeTab === 'quality' && data.dataQuality && (
+          <DataQualityPanel report={data.dataQuality} />
+        )}
+
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import React from 'react';
+import { CalendarRange, Replace, SkipForward, CopyPlus, X } from 'lucide-react';
+import { DateRange, MergeStrategy, OverlapReport } from '../types';
+
+interface Props {
+  report: OverlapReport;
+  incomingCount: number;
+  onResolve: (strategy: MergeStrategy) => void;
+  onCancel: () => void;
+}
+
+const formatRange = (range: DateRange | null) => range ? `${range.start} ~ ${range.end}` : '無有效日期';
+
+const OPTIONS: { strategy: MergeStrategy; icon: React.ElementType; title: string; description: string }[] = [
+  {
+    strategy: 'REPLACE',
+    icon: Replace,
+    title: '以新資料取代重疊期間',
+    description: '移除舊資料在重疊期間的紀錄，改用新上傳的資料 (適用於重新匯出的修正檔)'
+  },
+  {
+    strategy: 'SKIP',
+    icon: SkipForward,
+    title: '略過重疊期間',
+    description: '保留舊資料，只加入新資料中重疊期間以外的紀錄'
+  },
+  {
+    strategy: 'KEEP_BOTH',
+    icon: CopyPlus,
+    title: '全部保留',
+    description: '新舊資料都保留 (重疊期間的銷售可能被重複計算)'
+  }
+];
+
+const AppendMergeDialog: React.FC<Props> = ({ report, incomingCount, onResolve, onCancel }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+      <div className="p-4 border-b border-amber-100 flex justify-between items-center bg-amber-50">
+        <h3 className="font-bold text-amber-800 flex items-center gap-2">
+          <CalendarRange className="w-5 h-5" />
+          新資料與既有資料重疊
+        </h3>
+        <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-600" title="取消追加">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="text-gray-500 text-xs">既有資料期間</div>
+            <div className="font-medium text-gray-800">{formatRange(report.existingRange)}</div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <div className="text-gray-500 text-xs">新資料期間 ({incomingCount.toLocaleString()} 筆)</div>
+            <div className="font-medium text-gray-800">{formatRange(report.incomingRange)}</div>
+          </div>
+          <div className="p-3 bg-amber-50 rounded-lg">
+            <div className="text-amber-700 text-xs">重疊期間</div>
+            <div className="font-medium text-amber-900">{formatRange(report.overlapRange)}</div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          重疊期間內舊資料 {report.existingInOverlap.toLocaleString()} 筆、新資料 {report.incomingInOverlap.toLocaleString()} 筆；
+          新資料中有 <span className="font-bold text-amber-700">{report.duplicateCount.toLocaleString()}</span> 筆與既有資料完全相同 (日期、商品、數量、金額)。
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {OPTIONS.map(({ strategy, icon: Icon, title, description }) => (
+            <button
+              key={strategy}
+              onClick={() => onResolve(strategy)}
+              className="text-left p-4 border border-gray-200 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors"
+            >
+              <div className="flex items-center gap-2 font-medium text-gray-800">
+                <Icon className="w-4 h-4 text-blue-600" /> {title}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">{description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppendMergeDialog;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Tags, Plus, Trash2, RotateCcw, Check } from 'lucide-react';
+import { BrandDefinition, SalesRecord } from '../types';
+import {
+  findUnmatchedProducts, loadBrandRegistry, saveBrandRegistry, resetBrandRegistry
+} from '../utils/brandRegistry';
+
+interface Props {
+  records: SalesRecord[];
+  onRegistryChange: (registry: BrandDefinition[]) => void;
+}
+
+const splitList = (val: string) => val.split(/[,，]/).map(s => s.trim());
+const cleanList = (list: string[]) => list.map(s => s.trim()).filter(Boolean);
+
+const BrandManager: React.FC<Props> = ({ records, onRegistryChange }) => {
+  const [draft, setDraft] = useState<BrandDefinition[]>(() => loadBrandRegistry());
+  const [newBrand, setNewBrand] = useState('');
+  const [assignTarget, setAssignTarget] = useState<Record<string, string>>({});
+  const [isDirty, setIsDirty] = useState(false);
+
+  const unmatched = useMemo(() => findUnmatchedProducts(records).slice(0, 20), [records]);
+
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+
+  const applyRegistry = (next: BrandDefinition[]) => {
+    const cleaned = next
+      .filter(b => b.name.trim())
+      .map(b => ({ name: b.name.trim(), aliases: cleanList(b.aliases), modelPrefixes: cleanList(b.modelPrefixes) }));
+    saveBrandRegistry(cleaned);
+    setDraft(cleaned);
+    setIsDirty(false);
+    onRegistryChange(cleaned);
+  };
+
+  const updateBrand = (idx: number, patch: Partial<BrandDefinition>) => {
+    setDraft(prev => prev.map((b, i) => i === idx ? { ...b, ...patch } : b));
+    setIsDirty(true);
+  };
+
+  const removeBrand = (idx: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== idx));
+    setIsDirty(true);
+  };
+
+  const addBrand = () => {
+    const name = newBrand.trim();
+    if (!name || draft.some(b => b.name === name)) return;
+    setDraft(prev => [...prev, { name, aliases: [name.toLowerCase()], modelPrefixes: [] }]);
+    setNewBrand('');
+    setIsDirty(true);
+  };
+
+  // 一鍵歸類：將商品名稱加入該品牌別名並立即重新歸類
+  const assignProduct = (productName: string) => {
+    const target = assignTarget[productName] || draft[0]?.name;
+    if (!target) return;
+    applyRegistry(draft.map(b =>
+      b.name === target ? { ...b, aliases: [...b.aliases, productName.toLowerCase()] } : b
+    ));
+  };
+
+  const handleReset = () => {
+    if (!confirm('確定要還原為預設品牌字典？自訂內容將會遺失。')) return;
+    applyRegistry(resetBrandRegistry());
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* 品牌字典 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Tags className="w-5 h-5 text-blue-500" />
+            品牌字典 ({draft.length})
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+            >
+              <RotateCcw className="w-3 h-3" /> 還原預設
+            </button>
+            <button
+              onClick={() => applyRegistry(draft)}
+              disabled={!isDirty}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" /> 套用並重新歸類
+            </button>
+          </div>
+        </div>
+        <div className="p-4 border-b border-gray-100 flex gap-2">
+          <input
+            value={newBrand}
+            onChange={e => setNewBrand(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addBrand()}
+            placeholder="新增品牌 (例如 Kolin 歌林)"
+            className="flex-1 bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+          />
+          <button onClick={addBrand} className="px-3 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-700">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="max-h-[480px] overflow-y-auto divide-y divide-gray-100">
+          {draft.map((brand, idx) => (
+            <div key={idx} className="p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={brand.name}
+                  onChange={e => updateBrand(idx, { name: e.target.value })}
+                  className="flex-1 font-bold text-gray-800 text-sm border border-transparent hover:border-gray-200 rounded p-1"
+                />
+                <button onClick={() => removeBrand(idx)} className="p-1 text-gray-400 hover:text-red-500" title="刪除品牌">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  value={brand.aliases.join(', ')}
+                  onChange={e => updateBrand(idx, { aliases: splitList(e.target.value) })}
+                  placeholder="別名 (以逗號分隔)"
+                  className="bg-gray-50 border border-gray-200 text-xs rounded p-1.5"
+                />
+                <input
+                  value={brand.modelPrefixes.join(', ')}
+                  onChange={e => updateBrand(idx, { modelPrefixes: splitList(e.target.value) })}
+                  placeholder="型號前綴 (例如 NR-)"
+                  className="bg-gray-50 border border-gray-200 text-xs rounded p-1.5"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 未歸類商品 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50">
+          <h3 className="font-bold text-gray-700">未歸類商品 (其他) Top 20</h3>
+          <p className="text-xs text-gray-500 mt-1">選擇品牌後點「歸入」，商品名稱會加入該品牌別名</p>
+        </div>
+        {unmatched.length === 0 ? (
+          <div className="p-12 text-center text-gray-400">所有商品皆已歸類品牌</div>
+        ) : (
+          <div className="max-h-[540px] overflow-y-auto divide-y divide-gray-100">
+            {unmatched.map(p => (
+              <div key={p.productName} className="p-3 flex items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-800 truncate" title={p.productName}>{p.productName}</div>
+                  <div className="text-xs text-gray-500">{p.qty} 件 · {fmt(p.revenue)}</div>
+                </div>
+                <select
+                  value={assignTarget[p.productName] || draft[0]?.name || ''}
+                  onChange={e => setAssignTarget(prev => ({ ...prev, [p.productName]: e.target.value }))}
+                  className="w-36 bg-gray-50 border border-gray-300 text-xs rounded-lg p-1.5"
+                >
+                  {draft.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+                </select>
+                <button
+                  onClick={() => assignProduct(p.productName)}
+                  className="px-3 py-1.5 text-xs font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 whitespace-nowrap"
+                >
+                  歸入
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrandManager;
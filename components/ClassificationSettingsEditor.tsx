@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, RotateCcw, Check } from 'lucide-react';
+import { ClassificationBasis, ClassificationSettings, Granularity } from '../types';
+import { BASIS_LABELS, DEFAULT_CLASSIFICATION_SETTINGS, saveClassificationSettings } from '../utils/classification';
+
+interface Props {
+  settings: ClassificationSettings;
+  hasCost: boolean;
+  onSettingsChange: (settings: ClassificationSettings) => void;
+}
+
+const GRANULARITY_LABELS: Record<Exclude<Granularity, 'day'>, string> = {
+  week: '週',
+  month: '月'
+};
+
+const toNumber = (val: string, min: number, max: number) => Math.min(max, Math.max(min, Number(val) || 0));
+
+const ClassificationSettingsEditor: React.FC<Props> = ({ settings, hasCost, onSettingsChange }) => {
+  const [draft, setDraft] = useState<ClassificationSettings>(settings);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings);
+    setIsDirty(false);
+  }, [settings]);
+
+  const update = (next: ClassificationSettings) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const apply = (next: ClassificationSettings) => {
+    saveClassificationSettings(next);
+    onSettingsChange(next);
+  };
+
+  const invalid = draft.abcCutoffs.a >= draft.abcCutoffs.b || draft.xyzCutoffs.x >= draft.xyzCutoffs.y;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-blue-500" />
+          ABC-XYZ 分級設定
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => apply(DEFAULT_CLASSIFICATION_SETTINGS)}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={() => apply(draft)}
+            disabled={!isDirty || invalid}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" /> 套用並重新分級
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">ABC 排序基準</label>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+            {(Object.keys(BASIS_LABELS) as ClassificationBasis[]).map(basis => (
+              <button
+                key={basis}
+                onClick={() => update({ ...draft, basis })}
+                disabled={basis === 'GROSS_PROFIT' && !hasCost}
+                className={`flex-1 px-3 py-1.5 disabled:opacity-40 ${draft.basis === basis ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+              >
+                {BASIS_LABELS[basis]}
+              </button>
+            ))}
+          </div>
+          {!hasCost && <p className="text-xs text-gray-400 mt-1">資料無成本欄位，無法以毛利分級</p>}
+          {hasCost && draft.basis === 'GROSS_PROFIT' && (
+            <p className="text-xs text-gray-400 mt-1">沒有成本資料的商品以整體毛利率估算毛利</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">ABC 累積占比上限 (%)</label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500">A ≤</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={draft.abcCutoffs.a}
+              onChange={e => update({ ...draft, abcCutoffs: { ...draft.abcCutoffs, a: toNumber(e.target.value, 1, 99) } })}
+              className="w-16 bg-gray-50 border border-gray-300 rounded p-1 text-right"
+            />
+            <span className="text-xs text-gray-500">B ≤</span>
+            <input
+              type="number"
+              min={2}
+              max={100}
+              value={draft.abcCutoffs.b}
+              onChange={e => update({ ...draft, abcCutoffs: { ...draft.abcCutoffs, b: toNumber(e.target.value, 2, 100) } })}
+              className="w-16 bg-gray-50 border border-gray-300 rounded p-1 text-right"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">XYZ 變異係數上限</label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500">X ≤</span>
+            <input
+              type="number"
+              min={0.05}
+              step={0.05}
+              value={draft.xyzCutoffs.x}
+              onChange={e => update({ ...draft, xyzCutoffs: { ...draft.xyzCutoffs, x: toNumber(e.target.value, 0.05, 10) } })}
+              className="w-16 bg-gray-50 border border-gray-300 rounded p-1 text-right"
+            />
+            <span className="text-xs text-gray-500">Y ≤</span>
+            <input
+              type="number"
+              min={0.1}
+              step={0.05}
+              value={draft.xyzCutoffs.y}
+              onChange={e => update({ ...draft, xyzCutoffs: { ...draft.xyzCutoffs, y: toNumber(e.target.value, 0.1, 10) } })}
+              className="w-16 bg-gray-50 border border-gray-300 rounded p-1 text-right"
+            />
+            <select
+              value={draft.xyzGranularity}
+              onChange={e => update({ ...draft, xyzGranularity: e.target.value as Granularity })}
+              className="bg-gray-50 border border-gray-300 rounded p-1 text-xs"
+            >
+              {(Object.keys(GRANULARITY_LABELS) as (keyof typeof GRANULARITY_LABELS)[]).map(g => (
+                <option key={g} value={g}>每{GRANULARITY_LABELS[g]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      {invalid && <p className="px-4 pb-3 text-xs text-red-600">A 的上限需小於 B，X 的上限需小於 Y</p>}
+    </div>
+  );
+};
+
+export default ClassificationSettingsEditor;
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Columns } from 'lucide-react';
+import { ColumnMapping, FieldDetection, MappedField } from '../types';
+import { FIELD_SPECS, validateMapping } from '../utils/columnMapping';
+
+interface Props {
+  fileNames: string[];
+  headers: string[];
+  rows: any[];
+  detections: FieldDetection[];
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<Props> = ({ fileNames, headers, rows, detections, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const problems = useMemo(() => validateMapping(mapping), [mapping]);
+  const detectionByField = useMemo(
+    () => new Map(detections.map(d => [d.field, d])),
+    [detections]
+  );
+
+  // 欄位 → 對應到的標準欄位 (預覽表頭標示用)
+  const fieldByColumn = useMemo(() => {
+    const map = new Map<string, string>();
+    FIELD_SPECS.forEach(spec => {
+      const col = mapping[spec.field];
+      if (col) map.set(col, spec.label);
+    });
+    return map;
+  }, [mapping]);
+
+  const updateField = (field: MappedField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column || null }));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 mb-8 text-left">
+      <div className="flex items-center gap-2 mb-1">
+        <Columns className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-800">確認欄位對應</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4 truncate" title={fileNames.join(', ')}>
+        {fileNames.join(', ')} ({rows.length} 筆)
+      </p>
+
+      {/* 欄位選擇 */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        {FIELD_SPECS.map(spec => {
+          const detection = detectionByField.get(spec.field);
+          const selected = mapping[spec.field];
+          const isMissing = spec.required && !selected;
+          const isAmbiguous = detection?.ambiguous && selected === detection.column;
+
+          return (
+            <div key={spec.field} className="flex items-center gap-2">
+              <label className="w-20 text-sm font-medium text-gray-700 whitespace-nowrap">
+                {spec.label}{spec.required && <span className="text-red-500">*</span>}
+              </label>
+              <select
+                value={selected ?? ''}
+                onChange={e => updateField(spec.field, e.target.value)}
+                className={`flex-1 bg-gray-50 border text-gray-900 text-sm rounded-lg block p-2 ${isMissing ? 'border-red-400' : isAmbiguous ? 'border-amber-400' : 'border-gray-300'}`}
+              >
+                <option value="">(不使用)</option>
+                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+              {isMissing && (
+                <span title="必要欄位未對應"><AlertTriangle className="w-4 h-4 text-red-500" /></span>
+              )}
+              {!isMissing && isAmbiguous && (
+                <span title={`可能的欄位：${detection!.candidates.join('、')}`}>
+                  <AlertTriangle className="w-4 h-4 text-amber-500" />
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 問題提示 */}
+      {problems.length > 0 ? (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+          {problems.map((p, i) => <div key={i}>• {p}</div>)}
+        </div>
+      ) : detections.some(d => d.ambiguous && mapping[d.field] === d.column) ? (
+        <div className="mb-4 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-700">
+          黃色標示的欄位有多個可能來源，請確認系統選擇是否正確。
+        </div>
+      ) : (
+        <div className="mb-4 bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-700 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" /> 欄位對應完整
+        </div>
+      )}
+
+      {/* 資料預覽 */}
+      <div className="overflow-x-auto border border-gray-200 rounded-lg mb-4">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              {headers.map(h => (
+                <th key={h} className="px-3 py-2 whitespace-nowrap">
+                  <div>{h}</div>
+                  {fieldByColumn.has(h) && (
+                    <div className="text-blue-600 font-bold">→ {fieldByColumn.get(h)}</div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+              <tr key={idx}>
+                {headers.map(h => (
+                  <td key={h} className={`px-3 py-2 whitespace-nowrap ${fieldByColumn.has(h) ? 'bg-blue-50/50 text-gray-800' : 'text-gray-400'}`}>
+                    {row[h] !== undefined ? String(row[h]) : ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 font-medium"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => onConfirm(mapping)}
+          disabled={problems.length > 0}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          確認並記住此格式
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldCheck, AlertTriangle, XCircle, Download } from 'lucide-react';
+import { DataQualityReport, DataIssueType } from '../types';
+import { ISSUE_LABELS } from '../utils/dataQuality';
+
+interface Props {
+  report: DataQualityReport;
+}
+
+const MAX_ROWS = 200;
+
+const DataQualityPanel: React.FC<Props> = ({ report }) => {
+  const [filterType, setFilterType] = useState<DataIssueType | 'All'>('All');
+
+  const countsByType = useMemo(() => {
+    const counts = new Map<DataIssueType, number>();
+    report.issues.forEach(i => counts.set(i.type, (counts.get(i.type) || 0) + 1));
+    return counts;
+  }, [report]);
+
+  const visibleIssues = useMemo(() => {
+    const list = filterType === 'All' ? report.issues : report.issues.filter(i => i.type === filterType);
+    // 依檔案、工作表、列號排序，方便回頭修正來源檔
+    return [...list].sort((a, b) =>
+      (a.sourceFile || '').localeCompare(b.sourceFile || '') ||
+      (a.sourceSheet || '').localeCompare(b.sourceSheet || '') ||
+      (a.rowNumber || 0) - (b.rowNumber || 0)
+    );
+  }, [report, filterType]);
+
+  const handleExport = () => {
+    const headers = ['問題類型', '檔案', '工作表', '列號', '商品', '欄位', '原始值', '說明'];
+    const rows = visibleIssues.map(i => [
+      ISSUE_LABELS[i.type], i.sourceFile || '', i.sourceSheet || '', i.rowNumber ?? '',
+      i.product || '', i.field || '', i.value || '', i.message
+    ]);
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `Data_Quality_${new Date().toISOString().slice(0, 10)}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 概況 */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <div className="text-gray-500 text-sm mb-1">原始資料列</div>
+          <div className="text-2xl font-bold text-gray-800">{report.totalRows.toLocaleString()}</div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <ShieldCheck className="w-4 h-4" /> 採用
+          </div>
+          <div className="text-2xl font-bold text-emerald-600">{report.acceptedRows.toLocaleString()}</div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <XCircle className="w-4 h-4" /> 排除
+          </div>
+          <div className="text-2xl font-bold text-red-500">{report.rejectedRows.toLocaleString()}</div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <AlertTriangle className="w-4 h-4" /> 問題總數
+          </div>
+          <div className="text-2xl font-bold text-amber-500">{report.issues.length.toLocaleString()}</div>
+        </div>
+      </div>
+
+      {/* 問題清單 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex flex-wrap gap-2 justify-between items-center bg-gray-50">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setFilterType('All')}
+              className={`px-3 py-1 rounded-full text-xs font-medium border ${filterType === 'All' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300'}`}
+            >
+              全部 ({report.issues.length})
+            </button>
+            {Array.from(countsByType.entries()).map(([type, count]) => (
+              <button
+                key={type}
+                onClick={() => setFilterType(type)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${filterType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300'}`}
+              >
+                {ISSUE_LABELS[type]} ({count})
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={visibleIssues.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-gray-700 text-sm hover:bg-gray-50 transition-colors shadow-sm font-medium disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> 匯出 CSV
+          </button>
+        </div>
+
+        {visibleIssues.length === 0 ? (
+          <div className="p-12 text-center text-gray-400">
+            <ShieldCheck className="w-12 h-12 text-emerald-300 mx-auto mb-3" />
+            沒有發現資料問題
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-4 py-3">類型</th>
+                  <th className="px-4 py-3">來源</th>
+                  <th className="px-4 py-3 text-right">列號</th>
+                  <th className="px-4 py-3">商品</th>
+                  <th className="px-4 py-3">說明</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visibleIssues.slice(0, MAX_ROWS).map((issue, idx) => (
+                  <tr key={idx} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-0.5 rounded text-xs font-bold ${issue.severity === 'ERROR' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {ISSUE_LABELS[issue.type]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 max-w-[200px] truncate" title={`${issue.sourceFile || ''} ${issue.sourceSheet || ''}`}>
+                      {issue.sourceFile || '-'}{issue.sourceSheet ? ` / ${issue.sourceSheet}` : ''}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">{issue.rowNumber ?? '-'}</td>
+                    <td className="px-4 py-3 text-gray-800 max-w-[200px] truncate" title={issue.product}>{issue.product || '-'}</td>
+                    <td className="px-4 py-3 text-gray-600">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleIssues.length > MAX_ROWS && (
+              <div className="p-3 text-center text-xs text-gray-400">
+                僅顯示前 {MAX_ROWS} 筆，完整清單請匯出 CSV
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ListChecks, RotateCcw, Check } from 'lucide-react';
+import { DecisionRuleSettings } from '../types';
+import { DEFAULT_DECISION_RULE_SETTINGS, loadDecisionRuleSettings, saveDecisionRuleSettings } from '../utils/decisionRules';
+import { hasApiKey } from '../services/geminiClient';
+
+interface Props {
+  onSettingsChange: (settings: DecisionRuleSettings) => void;
+}
+
+type NumericField = Exclude<keyof DecisionRuleSettings, 'useAI'>;
+
+const FIELDS: { field: NumericField; label: string; unit: string; min: number; max: number; hint: string }[] = [
+  { field: 'slowMovingDays', label: '滯銷天數', unit: '天', min: 1, max: 365, hint: '最後銷售日距資料最後一天超過此天數視為滯銷' },
+  { field: 'highVelocityScore', label: '高週轉門檻', unit: '百分位', min: 0, max: 100, hint: '日均銷量百分位高於此值，B 類列為主力進貨' },
+  { field: 'lowVelocityScore', label: '低週轉門檻', unit: '百分位', min: 0, max: 100, hint: '日均銷量百分位低於此值，C 類建議停止進貨' },
+  { field: 'lowMarginPct', label: '低毛利門檻', unit: '%', min: 0, max: 100, hint: '毛利率低於此值且低週轉時列入觀察或停止進貨 (需有成本資料)' },
+  { field: 'highPricePercentile', label: '高單價門檻', unit: '百分位', min: 0, max: 100, hint: '單價在類別內高於此百分位且低週轉時建議形象陳列' }
+];
+
+const DecisionRulesEditor: React.FC<Props> = ({ onSettingsChange }) => {
+  const [draft, setDraft] = useState<DecisionRuleSettings>(() => loadDecisionRuleSettings());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (next: DecisionRuleSettings) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const apply = (next: DecisionRuleSettings) => {
+    saveDecisionRuleSettings(next);
+    setDraft(next);
+    setIsDirty(false);
+    onSettingsChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-blue-500" />
+            決策規則
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">套用後以規則重新產生決策清單 (AI 改寫的理由會在下次分析時重新產生)</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => apply(DEFAULT_DECISION_RULE_SETTINGS)}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={() => apply(draft)}
+            disabled={!isDirty}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" /> 套用並重新產生
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3 text-sm">
+        {FIELDS.map(f => (
+          <div key={f.field} className="flex flex-wrap items-center gap-3">
+            <label className="w-24 text-gray-700 font-medium">{f.label}</label>
+            <input
+              type="number"
+              min={f.min}
+              max={f.max}
+              value={draft[f.field]}
+              onChange={e => update({ ...draft, [f.field]: Math.min(f.max, Math.max(f.min, Number(e.target.value) || 0)) })}
+              className="w-20 bg-gray-50 border border-gray-300 rounded p-1 text-right"
+            />
+            <span className="text-xs text-gray-500 w-12">{f.unit}</span>
+            <span className="text-xs text-gray-400">{f.hint}</span>
+          </div>
+        ))}
+
+        <label className="flex items-center gap-2 pt-3 border-t border-gray-100 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.useAI}
+            onChange={e => update({ ...draft, useAI: e.target.checked })}
+            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="text-gray-700">分析時由 AI 改寫理由與策略摘要</span>
+          <span className="text-xs text-gray-400">
+            {hasApiKey() ? '(AI 逾時或失敗時自動改用規則結果)' : '(未設定 GEMINI_API_KEY，目前只使用規則)'}
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionRulesEditor;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Target } from 'lucide-react';
+import { DemandForecast } from '../types';
+import { FORECAST_METHOD_LABELS } from '../utils/forecasting';
+
+interface Props {
+  products: DemandForecast[];
+  categories: DemandForecast[];
+}
+
+const MAX_ROWS = 50;
+
+// WAPE 分級：30% 以內可直接採用，60% 以上建議人工確認
+const wapeColor = (wape: number | null) => {
+  if (wape === null) return 'text-gray-400';
+  if (wape <= 30) return 'text-emerald-600';
+  if (wape <= 60) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+const fmtPercent = (v: number | null) => v === null ? '-' : `${v}%`;
+
+const DemandForecastPanel: React.FC<Props> = ({ products, categories }) => {
+  const [level, setLevel] = useState<'PRODUCT' | 'CATEGORY'>('PRODUCT');
+  const [search, setSearch] = useState('');
+
+  const rows = useMemo(() => {
+    const list = level === 'PRODUCT' ? products : categories;
+    const keyword = search.trim().toLowerCase();
+    return keyword ? list.filter(f => f.key.toLowerCase().includes(keyword)) : list;
+  }, [level, products, categories, search]);
+
+  const overallWape = useMemo(() => {
+    const scored = products.filter(f => f.accuracy?.wape != null);
+    if (scored.length === 0) return null;
+    // 以預測量加權，避免冷門品項的大誤差主導整體
+    const weight = scored.reduce((a, f) => a + f.nextMonthQty, 0);
+    if (weight === 0) return null;
+    return Math.round(scored.reduce((a, f) => a + f.accuracy!.wape! * f.nextMonthQty, 0) / weight * 10) / 10;
+  }, [products]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Target className="w-5 h-5 text-indigo-500" />
+            品項需求預測與準確度
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            滾動起點回測 (最近 6 個月逐月預測下一個月)
+            {overallWape !== null && ` | 整體加權 WAPE ${overallWape}%`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="搜尋名稱"
+            className="bg-white border border-gray-300 text-sm rounded-lg p-1.5 w-40"
+          />
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+            <button
+              onClick={() => setLevel('PRODUCT')}
+              className={`px-3 py-1.5 ${level === 'PRODUCT' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+            >
+              品項 ({products.length})
+            </button>
+            <button
+              onClick={() => setLevel('CATEGORY')}
+              className={`px-3 py-1.5 ${level === 'CATEGORY' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+            >
+              類別 ({categories.length})
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-[480px]">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+            <tr>
+              <th className="px-4 py-3">{level === 'PRODUCT' ? '商品名稱' : '類別'}</th>
+              <th className="px-4 py-3">預測方法</th>
+              <th className="px-4 py-3 text-right">歷史月數</th>
+              <th className="px-4 py-3 text-right">下月預測</th>
+              <th className="px-4 py-3 text-right">未來 3 個月</th>
+              <th className="px-4 py-3 text-right">MAPE</th>
+              <th className="px-4 py-3 text-right">WAPE</th>
+              <th className="px-4 py-3 text-right">偏差 (Bias)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.slice(0, MAX_ROWS).map(f => (
+              <tr key={f.key} className="hover:bg-gray-50">
+                <td className="px-4 py-3 font-medium text-gray-800 max-w-[220px] truncate" title={f.key}>
+                  {f.key}
+                  {level === 'PRODUCT' && <div className="text-xs text-gray-400 font-normal">{f.category}</div>}
+                </td>
+                <td className="px-4 py-3 text-gray-600 text-xs">
+                  {FORECAST_METHOD_LABELS[f.method]}
+                  {f.intermittent && <span className="ml-1 px-1.5 py-0.5 bg-gray-100 rounded text-gray-500">間歇</span>}
+                </td>
+                <td className="px-4 py-3 text-right text-gray-600">{f.historyMonths}</td>
+                <td className="px-4 py-3 text-right font-bold text-blue-600">{f.nextMonthQty}</td>
+                <td className="px-4 py-3 text-right text-gray-600">
+                  {Math.round(f.horizonQty.slice(0, 3).reduce((a, b) => a + b, 0) * 10) / 10}
+                </td>
+                <td className="px-4 py-3 text-right text-gray-600">{fmtPercent(f.accuracy?.mape ?? null)}</td>
+                <td className={`px-4 py-3 text-right font-medium ${wapeColor(f.accuracy?.wape ?? null)}`}>
+                  {fmtPercent(f.accuracy?.wape ?? null)}
+                </td>
+                <td className={`px-4 py-3 text-right ${(f.accuracy?.bias ?? 0) > 0 ? 'text-amber-600' : 'text-gray-600'}`}>
+                  {f.accuracy?.bias != null ? `${f.accuracy.bias > 0 ? '+' : ''}${f.accuracy.bias}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > MAX_ROWS && (
+          <p className="p-3 text-xs text-gray-400 text-center">僅顯示前 {MAX_ROWS} 筆，請以搜尋縮小範圍</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DemandForecastPanel;
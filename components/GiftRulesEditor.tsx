@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Gift, Check, RotateCcw } from 'lucide-react';
+import { GiftRules } from '../types';
+import { DEFAULT_GIFT_RULES, loadGiftRules, saveGiftRules } from '../utils/giftRules';
+
+interface Props {
+  onRulesChange: (rules: GiftRules) => void;
+}
+
+const toText = (list: string[]) => list.join(', ');
+const toList = (text: string) => text.split(/[,，\n]/).map(s => s.trim()).filter(Boolean);
+
+const GiftRulesEditor: React.FC<Props> = ({ onRulesChange }) => {
+  const [keywords, setKeywords] = useState(() => toText(loadGiftRules().keywords));
+  const [exceptions, setExceptions] = useState(() => toText(loadGiftRules().exceptions));
+
+  const apply = (rules: GiftRules) => {
+    saveGiftRules(rules);
+    setKeywords(toText(rules.keywords));
+    setExceptions(toText(rules.exceptions));
+    onRulesChange(rules);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <Gift className="w-5 h-5 text-pink-500" />
+          贈品判斷規則
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => apply(DEFAULT_GIFT_RULES)}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={() => apply({ keywords: toList(keywords), exceptions: toList(exceptions) })}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+          >
+            <Check className="w-3 h-3" /> 套用並重新判斷
+          </button>
+        </div>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">贈品關鍵字</label>
+          <textarea
+            value={keywords}
+            onChange={e => setKeywords(e.target.value)}
+            rows={3}
+            className="w-full bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+          />
+          <p className="text-xs text-gray-400 mt-1">名稱含關鍵字，且同日同來源有主商品成交時，才視為贈品</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">例外字詞 (不是贈品)</label>
+          <textarea
+            value={exceptions}
+            onChange={e => setExceptions(e.target.value)}
+            rows={3}
+            className="w-full bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+          />
+          <p className="text-xs text-gray-400 mt-1">例如「送風機」、「禮盒組」等正常販售商品</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GiftRulesEditor;
@@ -3,21 +3,91 @@ import React, { useState } from 'react';
 import { Upload, FileSpreadsheet, Loader2, Plus } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { normalizeData } from '../utils/dataProcessor';
-import { SalesRecord } from '../types';
+import {
+  detectColumnMapping, detectionToMapping, extractHeaders, getHeaderSignature, hasSavedMappings, loadSavedMapping, saveMapping
+} from '../utils/columnMapping';
+import { buildDataQualityReport } from '../utils/dataQuality';
+import { suggestProductGroups, applyProductGroups } from '../utils/productIdentity';
+import { detectGifts, loadGiftRules } from '../utils/giftRules';
+import { SalesRecord, ColumnMapping, FieldDetection, SheetSource, DataQualityReport, ProductGroup } from '../types';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import SheetSelector from './SheetSelector';
+import ProductGroupingReview from './ProductGroupingReview';
 
 interface InputSectionProps {
-  onDataLoaded: (data: SalesRecord[], fileName: string) => void;
+  onDataLoaded: (data: SalesRecord[], fileName: string, qualityReport: DataQualityReport) => void;
   isLoading: boolean;
+  mode?: 'new' | 'append'; // append：追加至已載入的資料
+  existingRecords?: SalesRecord[]; // append 時的既有資料，用來沿用既有的商品標準名稱
 }
 
-const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading }) => {
+interface SourceGroup {
+  signature: string;
+  headers: string[];
+  rows: any[];
+  sources: SheetSource[];
+  fileNames: string[];
+  detections: FieldDetection[];
+  saved: ColumnMapping | null;   // 記住的對應
+  mapping: ColumnMapping | null; // null 代表尚待確認
+}
+
+interface PendingImport {
+  records: SalesRecord[];
+  qualityReport: DataQualityReport;
+  fileNames: string[];
+}
+
+const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading, mode = 'new', existingRecords = [] }) => {
   const [dragActive, setDragActive] = useState(false);
   const [fileInfo, setFileInfo] = useState<string | null>(null);
+  const [sheetSources, setSheetSources] = useState<SheetSource[] | null>(null);
+  const [pendingGroups, setPendingGroups] = useState<SourceGroup[]>([]);
+  const [reviewMapping, setReviewMapping] = useState(false); // 不套用記住的對應，重新確認
+  const [productReview, setProductReview] = useState<(PendingImport & { groups: ProductGroup[] }) | null>(null);
+
+  const finishImport = (groups: SourceGroup[]) => {
+    const results = groups.flatMap(g =>
+      g.sources.map(src => normalizeData(src.rows, g.mapping!, src))
+    );
+    const cleanRecords = results.flatMap(r => r.records);
+    const qualityReport = buildDataQualityReport(results.map(r => r.report), cleanRecords);
+    const fileNames = Array.from(new Set(groups.flatMap(g => g.fileNames)));
+    setPendingGroups([]);
+
+    // 同型號不同寫法的商品需先確認合併方式 (追加時併入既有商品)
+    const productGroups = suggestProductGroups(cleanRecords, mode === 'append' ? existingRecords : []);
+    const pending = { records: cleanRecords, qualityReport, fileNames };
+    if (productGroups.some(g => g.variants.length > 1)) {
+      setProductReview({ ...pending, groups: productGroups });
+    } else {
+      completeImport(pending, productGroups);
+    }
+  };
+
+  const completeImport = (pending: PendingImport, productGroups: ProductGroup[]) => {
+    const { fileNames } = pending;
+    setProductReview(null);
+    setFileInfo(`${fileNames.length} 個檔案: ${fileNames.join(', ')}`);
+    const records = detectGifts(applyProductGroups(pending.records, productGroups), loadGiftRules());
+    onDataLoaded(records, fileNames.join(', '), pending.qualityReport);
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping) => {
+    const current = pendingGroups.find(g => !g.mapping);
+    if (!current) return;
+
+    saveMapping(current.signature, mapping);
+    const updated = pendingGroups.map(g => g === current ? { ...g, mapping } : g);
+    if (updated.every(g => g.mapping)) {
+      finishImport(updated);
+    } else {
+      setPendingGroups(updated);
+    }
+  };
 
   const processFiles = async (files: FileList | File[]) => {
     const fileArray = Array.from(files);
-    const allRows: any[] = [];
-    const fileNames: string[] = [];
 
     // Simple check for Excel/CSV
     const validFiles = fileArray.filter(f => 
@@ -31,7 +101,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading })
         return;
     }
 
-    const readFile = (file: File): Promise<any[]> => {
+    const readFile = (file: File): Promise<SheetSource[]> => {
       return new Promise((resolve) => {
         const reader = new FileReader();
         reader.onload = (e) => {
@@ -39,10 +109,11 @@ const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading })
           if (data) {
             try {
               const workbook = XLSX.read(data, { type: 'binary' });
-              const firstSheetName = workbook.SheetNames[0];
-              const worksheet = workbook.Sheets[firstSheetName];
-              const jsonData = XLSX.utils.sheet_to_json(worksheet);
-              resolve(jsonData);
+              resolve(workbook.SheetNames.map(sheetName => ({
+                fileName: file.name,
+                sheetName,
+                rows: XLSX.utils.sheet_to_json(workbook.Sheets[sheetName])
+              })));
             } catch (err) {
               console.error(`Error parsing ${file.name}:`, err);
               resolve([]);
@@ -56,30 +127,57 @@ const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading })
     };
 
     try {
-        const promises = validFiles.map(f => {
-            fileNames.push(f.name);
-            return readFile(f);
-        });
+        const results = await Promise.all(validFiles.map(readFile));
+        const sheets = results.flat();
 
-        const results = await Promise.all(promises);
-        results.forEach(json => allRows.push(...json));
-
-        if (allRows.length === 0) {
+        if (sheets.every(s => s.rows.length === 0)) {
             alert("無法讀取資料，請檢查檔案內容");
             return;
         }
-        
-        // Merging happens implicitly by concatenating allRows
-        const cleanRecords = normalizeData(allRows);
-        
-        setFileInfo(`${validFiles.length} 個檔案: ${fileNames.join(', ')}`);
-        onDataLoaded(cleanRecords, fileNames.join(', '));
+
+        setSheetSources(sheets);
     } catch (err) {
         console.error("Batch processing error:", err);
         alert("檔案處理失敗");
     }
   };
 
+  const handleSheetsSelected = (selected: SheetSource[]) => {
+    setSheetSources(null);
+
+    // 依欄位簽章分組：同一種匯出格式共用一組欄位對應
+    const groupMap = new Map<string, SourceGroup>();
+    selected.forEach(sheet => {
+      if (sheet.rows.length === 0) return;
+      const headers = extractHeaders(sheet.rows);
+      const signature = getHeaderSignature(headers);
+      if (!groupMap.has(signature)) {
+        const saved = loadSavedMapping(signature, headers);
+        groupMap.set(signature, {
+          signature,
+          headers,
+          rows: [],
+          sources: [],
+          fileNames: [],
+          detections: detectColumnMapping(headers),
+          saved,
+          mapping: reviewMapping ? null : saved
+        });
+      }
+      const group = groupMap.get(signature)!;
+      group.rows.push(...sheet.rows);
+      group.sources.push(sheet);
+      if (!group.fileNames.includes(sheet.fileName)) group.fileNames.push(sheet.fileName);
+    });
+
+    const groups = Array.from(groupMap.values());
+    if (groups.every(g => g.mapping)) {
+      finishImport(groups);
+    } else {
+      setPendingGroups(groups);
+    }
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -106,11 +204,51 @@ const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading })
     }
   };
 
+  if (productReview) {
+    return (
+      <ProductGroupingReview
+        initialGroups={productReview.groups}
+        onConfirm={groups => completeImport(productReview, groups)}
+        onSkip={() => completeImport(productReview, [])}
+      />
+    );
+  }
+
+  if (sheetSources) {
+    return (
+      <SheetSelector
+        sheets={sheetSources}
+        onConfirm={handleSheetsSelected}
+        onCancel={() => setSheetSources(null)}
+      />
+    );
+  }
+
+  const currentGroup = pendingGroups.find(g => !g.mapping);
+  if (currentGroup) {
+    return (
+      <ColumnMappingWizard
+        key={currentGroup.signature}
+        fileNames={currentGroup.fileNames}
+        headers={currentGroup.headers}
+        rows={currentGroup.rows}
+        detections={currentGroup.detections}
+        initialMapping={currentGroup.saved ?? detectionToMapping(currentGroup.detections)}
+        onConfirm={handleMappingConfirm}
+        onCancel={() => setPendingGroups([])}
+      />
+    );
+  }
+
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 mb-8">
       <div className="text-center mb-6">
-        <h2 className="text-2xl font-bold text-gray-800">資料匯入中心</h2>
-        <p className="text-gray-500 mt-2">支援多檔案上傳與自動合併 (CSV, XLSX)</p>
+        <h2 className="text-2xl font-bold text-gray-800">{mode === 'append' ? '追加銷售資料' : '資料匯入中心'}</h2>
+        <p className="text-gray-500 mt-2">
+          {mode === 'append'
+            ? '新檔案將合併至目前的資料，日期重疊時可選擇處理方式'
+            : '支援多檔案、多工作表上傳與自動合併 (CSV, XLSX)'}
+        </p>
       </div>
 
       <div 
@@ -163,6 +301,17 @@ const InputSection: React.FC<InputSectionProps> = ({ onDataLoaded, isLoading })
             <p className="text-xs text-gray-400 mt-4">
               系統將自動合併並去除重複商品名稱 (若在同一筆交易中)
             </p>
+            {hasSavedMappings() && (
+              <label className="flex items-center justify-center gap-2 text-xs text-gray-500 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reviewMapping}
+                  onChange={e => setReviewMapping(e.target.checked)}
+                  className="w-3 h-3"
+                />
+                重新確認欄位對應 (不直接套用已記住的對應，可修正錯誤的設定)
+              </label>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { ShoppingCart, Link2, Info } from 'lucide-react';
+import { SalesRecord } from '../types';
+import { MAX_BASKET_ITEMS, analyzeMarketBasket } from '../utils/marketBasket';
+
+interface Props {
+  records: SalesRecord[];
+  mainProducts: string[]; // A 類商品
+}
+
+const MAX_ROWS = 50;
+const MAX_MAIN_PRODUCTS = 12;
+
+const MarketBasketPanel: React.FC<Props> = ({ records, mainProducts }) => {
+  const [level, setLevel] = useState<'PRODUCT' | 'CATEGORY'>('PRODUCT');
+  const [search, setSearch] = useState('');
+
+  const basket = useMemo(() => analyzeMarketBasket(records, mainProducts), [records, mainProducts]);
+
+  const rules = useMemo(() => {
+    const list = level === 'PRODUCT' ? basket.productRules : basket.categoryRules;
+    const keyword = search.trim().toLowerCase();
+    return keyword
+      ? list.filter(r => r.antecedent.toLowerCase().includes(keyword) || r.consequent.toLowerCase().includes(keyword))
+      : list;
+  }, [basket, level, search]);
+
+  const attachments = basket.attachments.filter(a => a.accessories.length > 0).slice(0, MAX_MAIN_PRODUCTS);
+
+  // 以日期分組時整天的品項常超過上限，所有交易都被略過時要說明原因，而不是只顯示「沒有組合」
+  const allSkipped = basket.transactionCount > 0 && basket.skippedLarge === basket.transactionCount;
+  const skippedReason = basket.mode === 'ORDER_ID'
+    ? `所有交易都超過 ${MAX_BASKET_ITEMS} 個品項，未納入組合計算`
+    : `每個「日期 × 門市」的交易都超過 ${MAX_BASKET_ITEMS} 個品項，未納入組合計算；請於匯入時對應「訂單編號」欄位`;
+
+  return (
+    <div className="space-y-6">
+      {/* 交易重建說明 */}
+      <div className={`p-4 rounded-xl border text-sm flex items-start gap-2 ${basket.mode === 'ORDER_ID' ? 'bg-blue-50 border-blue-100 text-blue-800' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+        <Info className="w-4 h-4 mt-0.5 shrink-0" />
+        <div>
+          {basket.mode === 'ORDER_ID'
+            ? `依訂單編號重建 ${basket.transactionCount} 筆交易，其中 ${basket.multiItemCount} 筆含 2 項以上商品。`
+            : `資料沒有訂單編號，以「同日期、同門市、同來源工作表」視為一筆交易 (共 ${basket.transactionCount} 筆)，結果為同日共同銷售，精確度較低；匯入時對應「訂單編號」欄位可改善。`}
+          {basket.skippedLarge > 0 && (basket.mode === 'ORDER_ID'
+            ? ` ${basket.skippedLarge} 筆交易超過 ${MAX_BASKET_ITEMS} 個品項，未納入組合計算。`
+            : ` 其中 ${basket.skippedLarge} 筆 (日期 × 門市) 超過 ${MAX_BASKET_ITEMS} 個品項，為避免組合數爆量未納入計算${allSkipped ? '，因此沒有任何組合結果' : ''}。`)}
+        </div>
+      </div>
+
+      {/* A 類商品搭售率 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50">
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-emerald-500" />
+            A 類商品搭售建議
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">搭售率 = 購買主商品的交易中同時購買該配件的比例；配件為單價低於主商品的品項</p>
+        </div>
+        {attachments.length === 0 ? (
+          <p className="p-6 text-sm text-gray-400 text-center">
+            {allSkipped ? skippedReason : 'A 類商品沒有足夠的共同購買紀錄 (每組至少 3 筆交易)'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 p-4">
+            {attachments.map(a => (
+              <div key={a.mainProduct} className="border border-gray-100 rounded-lg p-3">
+                <div className="font-medium text-gray-800 truncate" title={a.mainProduct}>{a.mainProduct}</div>
+                <div className="text-xs text-gray-400 mb-2">{a.category} · {a.transactions} 筆交易</div>
+                <ul className="space-y-1.5">
+                  {a.accessories.map(acc => (
+                    <li key={acc.product} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 truncate text-gray-700" title={acc.product}>{acc.product}</span>
+                      <span className="w-20 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <span className="block h-full bg-emerald-500" style={{ width: `${Math.min(100, acc.attachRate)}%` }} />
+                      </span>
+                      <span className="w-12 text-right font-bold text-emerald-600">{acc.attachRate}%</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 關聯規則 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+          <div>
+            <h3 className="font-bold text-gray-700 flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5 text-blue-500" />
+              關聯規則 (購買 A → 也購買 B)
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">Lift &gt; 1 代表比隨機更常一起購買，依 Lift 排序</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="搜尋名稱"
+              className="bg-white border border-gray-300 text-sm rounded-lg p-1.5 w-40"
+            />
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+              <button
+                onClick={() => setLevel('PRODUCT')}
+                className={`px-3 py-1.5 ${level === 'PRODUCT' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+              >
+                品項 ({basket.productRules.length})
+              </button>
+              <button
+                onClick={() => setLevel('CATEGORY')}
+                className={`px-3 py-1.5 ${level === 'CATEGORY' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+              >
+                類別 ({basket.categoryRules.length})
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="overflow-x-auto max-h-[480px]">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+              <tr>
+                <th className="px-4 py-3">購買</th>
+                <th className="px-4 py-3">也購買</th>
+                <th className="px-4 py-3 text-right">交易數</th>
+                <th className="px-4 py-3 text-right">Support</th>
+                <th className="px-4 py-3 text-right">Confidence</th>
+                <th className="px-4 py-3 text-right">Lift</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.slice(0, MAX_ROWS).map(r => (
+                <tr key={`${r.antecedent}|${r.consequent}`} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-800 max-w-[220px] truncate" title={r.antecedent}>{r.antecedent}</td>
+                  <td className="px-4 py-3 text-gray-800 max-w-[220px] truncate" title={r.consequent}>{r.consequent}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{r.pairCount}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{r.support}%</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{r.confidence}%</td>
+                  <td className="px-4 py-3 text-right font-bold text-blue-600">{r.lift}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rules.length === 0 && (
+            <p className="p-6 text-sm text-gray-400 text-center">{allSkipped ? skippedReason : '沒有符合條件的組合'}</p>
+          )}
+          {rules.length > MAX_ROWS && (
+            <p className="p-3 text-xs text-gray-400 text-center">僅顯示前 {MAX_ROWS} 筆，請以搜尋縮小範圍</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarketBasketPanel;
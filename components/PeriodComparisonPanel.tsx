@@ -0,0 +1,121 @@
+import React from 'react';
+import { GitCompare, ArrowUpRight, ArrowDownRight, ArrowRight } from 'lucide-react';
+import { MetricDelta, PeriodComparison, ShareDelta } from '../types';
+
+interface Props {
+  comparison: PeriodComparison;
+  baselineLabel: string;
+}
+
+const MAX_ABC_ROWS = 30;
+
+const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+const fmtNum = (n: number) => new Intl.NumberFormat('zh-TW').format(n);
+
+const signed = (v: number, suffix = '') => `${v > 0 ? '+' : ''}${v}${suffix}`;
+const deltaColor = (v: number) => v > 0 ? 'text-emerald-600' : v < 0 ? 'text-red-600' : 'text-gray-500';
+
+const DeltaCard: React.FC<{ label: string; delta: MetricDelta; format: (n: number) => string }> = ({ label, delta, format }) => (
+  <div className="p-4 rounded-lg border border-gray-100 bg-gray-50">
+    <div className="text-xs text-gray-500 mb-1">{label}</div>
+    <div className="text-xl font-bold text-gray-800">{format(delta.current)}</div>
+    <div className={`text-sm flex items-center gap-1 ${deltaColor(delta.change)}`}>
+      {delta.change >= 0 ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownRight className="w-4 h-4" />}
+      {delta.changePct !== null ? signed(delta.changePct, '%') : '基期無資料'}
+      <span className="text-xs text-gray-400 ml-1">基期 {format(delta.previous)}</span>
+    </div>
+  </div>
+);
+
+const ShareTable: React.FC<{ title: string; rows: ShareDelta[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-sm font-bold text-gray-700 mb-2">{title}</h4>
+    <div className="overflow-x-auto max-h-[260px]">
+      <table className="w-full text-sm">
+        <thead className="text-xs text-gray-500 sticky top-0 bg-white">
+          <tr>
+            <th className="text-left py-2">項目</th>
+            <th className="text-right py-2">基期占比</th>
+            <th className="text-right py-2">本期占比</th>
+            <th className="text-right py-2">變化</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(r => (
+            <tr key={r.key}>
+              <td className="py-2 text-gray-800 truncate max-w-[160px]" title={r.key}>{r.key}</td>
+              <td className="py-2 text-right text-gray-500">{r.previousShare}%</td>
+              <td className="py-2 text-right text-gray-800">{r.currentShare}%</td>
+              <td className={`py-2 text-right font-medium ${deltaColor(r.sharePts)}`}>{signed(r.sharePts, ' pts')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const PeriodComparisonPanel: React.FC<Props> = ({ comparison, baselineLabel }) => {
+  const { current, previous } = comparison;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-500" />
+          期間比較 ({baselineLabel})
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          本期 {current.start} ~ {current.end}　vs　基期 {previous.start} ~ {previous.end}
+        </p>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <DeltaCard label="營收" delta={comparison.revenue} format={fmt} />
+          <DeltaCard label="銷量" delta={comparison.quantity} format={fmtNum} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ShareTable title="品牌占比變化" rows={comparison.brandShare} />
+          <ShareTable title="價格帶組成變化" rows={comparison.priceBandMix} />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-bold text-gray-700 mb-2">ABC 分級變動 ({comparison.abcChanges.length} 項)</h4>
+          {comparison.abcChanges.length === 0 ? (
+            <p className="text-sm text-gray-400">兩期間的 ABC 分級沒有變動</p>
+          ) : (
+            <div className="overflow-x-auto max-h-[300px]">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 sticky top-0 bg-white">
+                  <tr>
+                    <th className="text-left py-2">商品名稱</th>
+                    <th className="text-left py-2">類別</th>
+                    <th className="text-left py-2">分級變化</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {comparison.abcChanges.slice(0, MAX_ABC_ROWS).map(c => (
+                    <tr key={c.productName}>
+                      <td className="py-2 text-gray-800 truncate max-w-[260px]" title={c.productName}>{c.productName}</td>
+                      <td className="py-2 text-gray-500">{c.category}</td>
+                      <td className="py-2 text-gray-700 flex items-center gap-1">
+                        {c.previous ?? '無銷售'} <ArrowRight className="w-3 h-3 text-gray-400" /> {c.current ?? '無銷售'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {comparison.abcChanges.length > MAX_ABC_ROWS && (
+                <p className="p-2 text-xs text-gray-400 text-center">僅顯示前 {MAX_ABC_ROWS} 筆</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodComparisonPanel;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Check } from 'lucide-react';
+import { CategoryBandThresholds, PriceBandSettings } from '../types';
+import { MAX_BANDS, MIN_BANDS, bandNames, savePriceBandSettings } from '../utils/priceBands';
+
+interface Props {
+  settings: PriceBandSettings;
+  bands: CategoryBandThresholds; // 目前生效的分界 (含自動切分)
+  onSettingsChange: (settings: PriceBandSettings) => void;
+}
+
+const toText = (thresholds: number[]) => thresholds.join(', ');
+
+// 解析使用者輸入的分界：去除非正數與重複值並排序
+const parseThresholds = (text: string): number[] =>
+  Array.from(new Set(
+    text.split(/[,，\s]+/).map(v => Number(v.replace(/[^\d.]/g, ''))).filter(v => v > 0)
+  )).sort((a, b) => a - b);
+
+const PriceBandEditor: React.FC<Props> = ({ settings, bands, onSettingsChange }) => {
+  const [bandCount, setBandCount] = useState(settings.bandCount);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setBandCount(settings.bandCount);
+    const next: Record<string, string> = {};
+    Object.keys(settings.custom).forEach(c => { next[c] = toText(settings.custom[c]); });
+    setDrafts(next);
+  }, [settings]);
+
+  const categories = Object.keys(bands).sort();
+
+  const apply = () => {
+    const custom: CategoryBandThresholds = {};
+    Object.keys(drafts).forEach(category => {
+      const thresholds = parseThresholds(drafts[category]).slice(0, MAX_BANDS - 1);
+      if (thresholds.length > 0) custom[category] = thresholds;
+    });
+    const next = { bandCount, custom };
+    savePriceBandSettings(next);
+    onSettingsChange(next);
+  };
+
+  const resetCategory = (category: string) => {
+    const next = { ...drafts };
+    delete next[category];
+    setDrafts(next);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 border-b border-gray-100 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-gray-700 font-medium">自動切分帶數</label>
+        <select
+          value={bandCount}
+          onChange={e => setBandCount(Number(e.target.value))}
+          className="bg-white border border-gray-300 rounded p-1"
+        >
+          {Array.from({ length: MAX_BANDS - MIN_BANDS + 1 }, (_, i) => MIN_BANDS + i).map(n => (
+            <option key={n} value={n}>{n} 帶 ({bandNames(new Array(n - 1).fill(0)).join(' / ')})</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-400">依各類別成交單價的銷量分位數切分；自訂分界的類別不受影響</span>
+        <button
+          onClick={apply}
+          className="ml-auto flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+        >
+          <Check className="w-3 h-3" /> 套用
+        </button>
+      </div>
+
+      <div className="max-h-[260px] overflow-y-auto">
+        <table className="w-full">
+          <thead className="text-xs text-gray-500">
+            <tr>
+              <th className="text-left p-2">類別</th>
+              <th className="text-left p-2">價格分界 (元，以逗號分隔)</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {categories.map(category => {
+              const isCustom = drafts[category] !== undefined;
+              return (
+                <tr key={category}>
+                  <td className="p-2 text-gray-800 whitespace-nowrap">{category}</td>
+                  <td className="p-2">
+                    <input
+                      value={isCustom ? drafts[category] : toText(bands[category])}
+                      onChange={e => setDrafts({ ...drafts, [category]: e.target.value })}
+                      placeholder="例：3000, 10000, 25000"
+                      className={`w-full border rounded p-1 ${isCustom ? 'bg-white border-blue-300' : 'bg-gray-50 border-gray-200 text-gray-500'}`}
+                    />
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    {isCustom ? (
+                      <button
+                        onClick={() => resetCategory(category)}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600"
+                      >
+                        <RotateCcw className="w-3 h-3" /> 改回自動
+                      </button>
+                    ) : (
+                      <span className="text-xs text-gray-400">自動</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBandEditor;
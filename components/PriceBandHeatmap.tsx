@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { Flame, Pencil } from 'lucide-react';
+import { CategoryBandThresholds, PriceBandSettings, SalesRecord } from '../types';
+import { TIER_ORDER, analyzeCategoryPriceBands, bandRangeLabel } from '../utils/priceBands';
+import PriceBandEditor from './PriceBandEditor';
+
+interface Props {
+  records: SalesRecord[];
+  bands: CategoryBandThresholds;
+  settings: PriceBandSettings;
+  onSettingsChange: (settings: PriceBandSettings) => void;
+}
+
+// 占比越高顏色越深
+const heatColor = (share: number) => `rgba(79, 70, 229, ${Math.min(0.85, Math.max(0.04, share / 100))})`;
+
+const PriceBandHeatmap: React.FC<Props> = ({ records, bands, settings, onSettingsChange }) => {
+  const [showEditor, setShowEditor] = useState(false);
+
+  const cells = useMemo(() => analyzeCategoryPriceBands(records, bands), [records, bands]);
+
+  // 類別依營收排序；欄位為出現過的價位級距
+  const { categories, tiers } = useMemo(() => {
+    const revenue = new Map<string, number>();
+    cells.forEach(c => revenue.set(c.category, (revenue.get(c.category) || 0) + c.revenue));
+    return {
+      categories: Array.from(revenue.entries()).sort((a, b) => b[1] - a[1]).map(([c]) => c),
+      tiers: TIER_ORDER.filter(t => cells.some(c => c.band === t))
+    };
+  }, [cells]);
+
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Flame className="w-5 h-5 text-indigo-500" />
+            類別 × 價格帶營收熱度
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">價格帶依各類別自身的價位切分，格內為占該類別營收的比例</p>
+        </div>
+        <button
+          onClick={() => setShowEditor(v => !v)}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+        >
+          <Pencil className="w-3 h-3" /> {showEditor ? '收合' : '調整價格帶'}
+        </button>
+      </div>
+
+      {showEditor && <PriceBandEditor settings={settings} bands={bands} onSettingsChange={onSettingsChange} />}
+
+      <div className="overflow-x-auto max-h-[480px]">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500 sticky top-0">
+            <tr>
+              <th className="px-4 py-3 text-left">類別</th>
+              {tiers.map(t => <th key={t} className="px-4 py-3 text-center">{t}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {categories.map(category => (
+              <tr key={category}>
+                <td className="px-4 py-2 font-medium text-gray-800 whitespace-nowrap">{category}</td>
+                {tiers.map(tier => {
+                  const cell = cells.find(c => c.category === category && c.band === tier);
+                  if (!cell) return <td key={tier} className="px-2 py-2 text-center text-gray-300">-</td>;
+                  return (
+                    <td key={tier} className="px-2 py-2">
+                      <div
+                        className={`rounded p-2 text-center ${cell.share >= 45 ? 'text-white' : 'text-gray-800'}`}
+                        style={{ backgroundColor: heatColor(cell.share) }}
+                        title={`${fmt(cell.revenue)} · ${cell.qty} 件`}
+                      >
+                        <div className="font-bold">{cell.share}%</div>
+                        <div className="text-xs opacity-80">{bandRangeLabel(cell.bandIndex, bands[category] || [])}</div>
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBandHeatmap;
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { BadgePercent } from 'lucide-react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell, ReferenceLine
+} from 'recharts';
+import { PriceElasticity, SalesRecord } from '../types';
+import { analyzePriceElasticity } from '../utils/priceElasticity';
+
+interface Props {
+  records: SalesRecord[];
+}
+
+const MAX_ROWS = 50;
+
+// 彈性解讀：|e| > 1 降價可提升營收
+const elasticityLabel = (e: number | null) => {
+  if (e === null) return { text: '資料不足', className: 'text-gray-400' };
+  if (e <= -1) return { text: '高彈性', className: 'text-emerald-600' };
+  if (e < 0) return { text: '低彈性', className: 'text-amber-600' };
+  return { text: '無反應', className: 'text-red-600' };
+};
+
+const fmtPct = (v: number | null) => v === null ? '-' : `${v > 0 ? '+' : ''}${v}%`;
+
+const PriceElasticityPanel: React.FC<Props> = ({ records }) => {
+  const [level, setLevel] = useState<'PRODUCT' | 'CATEGORY'>('PRODUCT');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const result = useMemo(() => analyzePriceElasticity(records), [records]);
+
+  const rows = useMemo(() => {
+    const list = level === 'PRODUCT' ? result.products : result.categories;
+    const keyword = search.trim().toLowerCase();
+    return keyword ? list.filter(r => r.key.toLowerCase().includes(keyword)) : list;
+  }, [level, result, search]);
+
+  // 預設顯示營收最高且有折扣紀錄的商品
+  const detail: PriceElasticity | undefined = useMemo(() =>
+    result.products.find(p => p.key === selected) ||
+    result.products.find(p => p.discountWeeks > 0) ||
+    result.products[0],
+  [result, selected]);
+
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+
+  if (result.products.length === 0) {
+    return <div className="text-center py-12 text-gray-500">沒有可分析的銷售紀錄</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 單品價格 × 銷量時間軸 */}
+      {detail && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+          <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-gray-800">{detail.key}</h3>
+              <p className="text-xs text-gray-500 mt-1">
+                原價 {fmt(detail.regularPrice)} · 折扣週 {detail.discountWeeks} · 價格彈性 {detail.elasticity ?? '-'}
+              </p>
+            </div>
+            <select
+              value={detail.key}
+              onChange={e => setSelected(e.target.value)}
+              className="bg-gray-50 border border-gray-300 text-sm rounded-lg p-2 max-w-[280px]"
+            >
+              {result.products.slice(0, 200).map(p => <option key={p.key} value={p.key}>{p.key}</option>)}
+            </select>
+          </div>
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={detail.timeline}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                <YAxis yAxisId="qty" orientation="left" stroke="#64748b" />
+                <YAxis yAxisId="price" orientation="right" stroke="#6366f1" domain={['auto', 'auto']} />
+                <Tooltip formatter={(val: number, name: string) => name === '成交價' ? fmt(val) : val} />
+                <Legend />
+                <Bar yAxisId="qty" dataKey="qty" name="週銷量" radius={[3, 3, 0, 0]}>
+                  {detail.timeline.map(p => (
+                    <Cell key={p.period} fill={p.isDiscount ? '#f59e0b' : '#94a3b8'} />
+                  ))}
+                </Bar>
+                <Line yAxisId="price" type="stepAfter" dataKey="price" name="成交價" stroke="#6366f1" strokeWidth={2} dot={false} connectNulls />
+                <ReferenceLine yAxisId="price" y={detail.regularPrice} stroke="#6366f1" strokeDasharray="4 4" label={{ value: '原價', fontSize: 11, fill: '#6366f1' }} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">橘色為折扣週 (成交價低於原價 5% 以上)</p>
+
+          {detail.promotions.length > 0 && (
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500">
+                  <tr>
+                    <th className="text-left py-2">促銷期間</th>
+                    <th className="text-right py-2">週數</th>
+                    <th className="text-right py-2">成交價</th>
+                    <th className="text-right py-2">折扣</th>
+                    <th className="text-right py-2">週銷量</th>
+                    <th className="text-right py-2">基準週銷量</th>
+                    <th className="text-right py-2">提升</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {detail.promotions.map(p => (
+                    <tr key={p.start}>
+                      <td className="py-2 text-gray-700">{p.start} ~ {p.end}</td>
+                      <td className="py-2 text-right text-gray-600">{p.weeks}</td>
+                      <td className="py-2 text-right text-gray-600">{fmt(p.avgPrice)}</td>
+                      <td className="py-2 text-right text-amber-600">-{p.discountPct}%</td>
+                      <td className="py-2 text-right text-gray-800">{p.avgWeeklyQty}</td>
+                      <td className="py-2 text-right text-gray-500">{p.baselineWeeklyQty}</td>
+                      <td className={`py-2 text-right font-bold ${(p.upliftPct ?? 0) > 0 ? 'text-emerald-600' : 'text-red-600'}`}>{fmtPct(p.upliftPct)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 彈性與促銷成效總表 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+          <div>
+            <h3 className="font-bold text-gray-700 flex items-center gap-2">
+              <BadgePercent className="w-5 h-5 text-amber-500" />
+              價格彈性與促銷成效
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">彈性 = 價格變動 1% 時銷量變動的 %；低於 -1 代表降價能帶動營收</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="搜尋名稱"
+              className="bg-white border border-gray-300 text-sm rounded-lg p-1.5 w-40"
+            />
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+              <button
+                onClick={() => setLevel('PRODUCT')}
+                className={`px-3 py-1.5 ${level === 'PRODUCT' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+              >
+                品項 ({result.products.length})
+              </button>
+              <button
+                onClick={() => setLevel('CATEGORY')}
+                className={`px-3 py-1.5 ${level === 'CATEGORY' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600'}`}
+              >
+                類別 ({result.categories.length})
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="overflow-x-auto max-h-[480px]">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+              <tr>
+                <th className="px-4 py-3">{level === 'PRODUCT' ? '商品名稱' : '類別'}</th>
+                <th className="px-4 py-3 text-right">{level === 'PRODUCT' ? '原價' : '加權原價'}</th>
+                <th className="px-4 py-3 text-right">價格彈性</th>
+                <th className="px-4 py-3 text-right">折扣週數</th>
+                <th className="px-4 py-3 text-right">平均折扣</th>
+                <th className="px-4 py-3 text-right">平均銷量提升</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.slice(0, MAX_ROWS).map(r => {
+                const label = elasticityLabel(r.elasticity);
+                return (
+                  <tr
+                    key={r.key}
+                    onClick={() => level === 'PRODUCT' && setSelected(r.key)}
+                    className={`hover:bg-gray-50 ${level === 'PRODUCT' ? 'cursor-pointer' : ''} ${detail?.key === r.key && level === 'PRODUCT' ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-4 py-3 font-medium text-gray-800 max-w-[240px] truncate" title={r.key}>
+                      {r.key}
+                      {level === 'PRODUCT' && <div className="text-xs text-gray-400 font-normal">{r.category}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">{fmt(r.regularPrice)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <span className="text-gray-800">{r.elasticity ?? '-'}</span>
+                      <span className={`ml-2 text-xs ${label.className}`}>{label.text}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">{r.discountWeeks}</td>
+                    <td className="px-4 py-3 text-right text-amber-600">{r.avgDiscountPct !== null ? `-${r.avgDiscountPct}%` : '-'}</td>
+                    <td className={`px-4 py-3 text-right font-medium ${(r.avgUpliftPct ?? 0) > 0 ? 'text-emerald-600' : 'text-gray-600'}`}>
+                      {fmtPct(r.avgUpliftPct)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length > MAX_ROWS && (
+            <p className="p-3 text-xs text-gray-400 text-center">僅顯示前 {MAX_ROWS} 筆，請以搜尋縮小範圍</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceElasticityPanel;
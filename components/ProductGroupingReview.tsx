@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { GitMerge, Scissors, Search } from 'lucide-react';
+import { ProductGroup } from '../types';
+import { mergeProductGroups, splitProductVariant } from '../utils/productIdentity';
+
+interface Props {
+  initialGroups: ProductGroup[];
+  onConfirm: (groups: ProductGroup[]) => void;
+  onSkip: () => void;
+}
+
+const ProductGroupingReview: React.FC<Props> = ({ initialGroups, onConfirm, onSkip }) => {
+  const [groups, setGroups] = useState<ProductGroup[]>(initialGroups);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+
+  // 多名稱分組優先顯示；搜尋時才列出單一名稱的商品 (供手動合併)
+  const visibleGroups = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    if (!keyword) return groups.filter(g => g.variants.length > 1 || selected.has(g.id));
+    return groups.filter(g =>
+      selected.has(g.id) ||
+      g.variants.some(v => v.toLowerCase().includes(keyword)) ||
+      (g.modelNumber || '').toLowerCase().includes(keyword)
+    );
+  }, [groups, search, selected]);
+
+  const mergedCount = groups.filter(g => g.variants.length > 1).length;
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleMerge = () => {
+    setGroups(prev => mergeProductGroups(prev, Array.from(selected)));
+    setSelected(new Set());
+  };
+
+  const setCanonical = (id: string, name: string) => {
+    setGroups(prev => prev.map(g => g.id === id ? { ...g, canonicalName: name } : g));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 mb-8 text-left">
+      <div className="flex items-center gap-2 mb-1">
+        <GitMerge className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-800">確認商品合併</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        系統依型號找到 {mergedCount} 組同一商品的不同寫法。可拆出誤判的名稱，或搜尋並勾選多個商品手動合併。
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="搜尋商品名稱或型號"
+            className="w-full bg-gray-50 border border-gray-300 text-sm rounded-lg p-2 pl-9"
+          />
+        </div>
+        <button
+          onClick={handleMerge}
+          disabled={selected.size < 2}
+          className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-white bg-gray-800 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          <GitMerge className="w-4 h-4" /> 合併所選 ({selected.size})
+        </button>
+      </div>
+
+      <div className="max-h-[420px] overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100 mb-4">
+        {visibleGroups.length === 0 && (
+          <div className="p-8 text-center text-gray-400 text-sm">沒有符合的商品</div>
+        )}
+        {visibleGroups.map(group => (
+          <div key={group.id} className="p-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selected.has(group.id)}
+                onChange={() => toggle(group.id)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              {group.modelNumber && (
+                <span className="text-xs font-mono bg-blue-50 text-blue-700 px-2 py-0.5 rounded">{group.modelNumber}</span>
+              )}
+              {group.variants.length > 1 ? (
+                <select
+                  value={group.canonicalName}
+                  onChange={e => setCanonical(group.id, e.target.value)}
+                  className="flex-1 bg-gray-50 border border-gray-300 text-sm font-medium rounded p-1"
+                >
+                  {group.variants.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              ) : (
+                <span className="flex-1 text-sm text-gray-800">{group.canonicalName}</span>
+              )}
+            </div>
+            {group.variants.length > 1 && (
+              <div className="mt-2 pl-6 space-y-1">
+                {group.variants.map(v => (
+                  <div key={v} className="flex items-center justify-between text-xs text-gray-600">
+                    <span className="truncate" title={v}>• {v}</span>
+                    <button
+                      onClick={() => setGroups(prev => splitProductVariant(prev, group.id, v))}
+                      className="flex items-center gap-1 text-gray-400 hover:text-red-500 whitespace-nowrap"
+                      title="拆出為獨立商品"
+                    >
+                      <Scissors className="w-3 h-3" /> 拆出
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onSkip} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 font-medium">
+          不合併，直接分析
+        </button>
+        <button
+          onClick={() => onConfirm(groups)}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm"
+        >
+          確認合併並開始分析
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProductGroupingReview;
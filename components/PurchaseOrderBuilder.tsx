@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, FileSpreadsheet, Printer, RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+import { InventoryMetrics, PurchaseOrder, PurchaseOrderDraft, SalesRecord, StockPosition } from '../types';
+import {
+  buildPurchaseOrders, orderTotals, lineWarning, exportPurchaseOrderXlsx, buildPurchaseOrderHtml, suggestionSignature
+} from '../utils/purchaseOrder';
+
+interface Props {
+  metrics: InventoryMetrics[];
+  positions: StockPosition[];
+  records: SalesRecord[];
+  draft: PurchaseOrderDraft | null;  // 草稿由上層保存，元件卸載 (切換分頁) 時不會遺失
+  onDraftChange: (draft: PurchaseOrderDraft) => void;
+}
+
+const PurchaseOrderBuilder: React.FC<Props> = ({ metrics, positions, records, draft, onDraftChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const basis = useMemo(() => suggestionSignature(metrics, positions), [metrics, positions]);
+  const orders = draft?.orders ?? [];
+  const isDirty = draft?.isDirty ?? false;
+  const isStale = !!draft && draft.basis !== basis; // 建議量已變動但草稿未更新
+
+  const generate = () => {
+    const next = buildPurchaseOrders(metrics, positions, records);
+    onDraftChange({ orders: next, basis, isDirty: false });
+    setSelectedId(next[0]?.id ?? null);
+  };
+
+  const regenerate = () => {
+    if (isDirty && !confirm('重新產生會覆蓋已調整的數量與移除的品項，確定要繼續嗎？')) return;
+    generate();
+  };
+
+  // 沒有草稿、或建議量變動 (篩選、補貨參數、庫存快照) 且草稿未調整過時重新產生；已調整的草稿保留並提示
+  useEffect(() => {
+    if (!draft || (!draft.isDirty && draft.basis !== basis)) generate();
+  }, [basis]);
+
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+
+  const selected = orders.find(o => o.id === selectedId) || orders[0] || null;
+
+  const updateLines = (orderId: string, update: (order: PurchaseOrder) => PurchaseOrder['lines']) => {
+    if (!draft) return;
+    onDraftChange({ ...draft, orders: orders.map(o => o.id === orderId ? { ...o, lines: update(o) } : o), isDirty: true });
+  };
+
+  const handlePrint = (order: PurchaseOrder) => {
+    const win = window.open('', '_blank');
+    if (!win) {
+      alert('瀏覽器封鎖了彈出視窗，請允許後再試一次');
+      return;
+    }
+    win.document.write(buildPurchaseOrderHtml(order));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-blue-500" />
+            採購單草稿 ({orders.length} 家供應商)
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">依品牌分單；有庫存快照的商品採用淨進貨量，可直接調整數量後匯出</p>
+          {isStale && isDirty && (
+            <p className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" /> 建議量已變動，草稿仍保留您的調整；按「重新產生」以套用最新建議
+            </p>
+          )}
+        </div>
+        <button
+          onClick={regenerate}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+        >
+          <RefreshCw className="w-3 h-3" /> 重新產生
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4">
+        {/* 供應商清單 */}
+        <div className="border-r border-gray-100 max-h-[520px] overflow-y-auto">
+          {orders.map(o => {
+            const totals = orderTotals(o);
+            return (
+              <button
+                key={o.id}
+                onClick={() => setSelectedId(o.id)}
+                className={`w-full text-left p-3 border-b border-gray-100 ${o.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="font-medium text-gray-800 truncate">{o.supplier}</div>
+                <div className="text-xs text-gray-500">
+                  {o.lines.length} 項 · {totals.totalQty} 件 · {fmt(totals.totalCost)}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* 採購單明細 */}
+        {selected && (
+          <div className="lg:col-span-3">
+            <div className="p-4 flex flex-wrap gap-3 justify-between items-center border-b border-gray-100">
+              <div>
+                <div className="font-bold text-gray-800">{selected.supplier}</div>
+                <div className="text-xs text-gray-500">{selected.id}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => exportPurchaseOrderXlsx(selected)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs text-emerald-700 border border-emerald-200 rounded-lg hover:bg-emerald-50"
+                >
+                  <FileSpreadsheet className="w-3 h-3" /> 匯出 XLSX
+                </button>
+                <button
+                  onClick={() => handlePrint(selected)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+                >
+                  <Printer className="w-3 h-3" /> 列印 / PDF
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto max-h-[440px]">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3">商品名稱</th>
+                    <th className="px-4 py-3 text-right">建議量</th>
+                    <th className="px-4 py-3 text-right">訂購量</th>
+                    <th className="px-4 py-3 text-right">單位成本</th>
+                    <th className="px-4 py-3 text-right">小計</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selected.lines.map(line => {
+                    const warning = lineWarning(line);
+                    return (
+                      <tr key={line.productName} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 max-w-[260px]">
+                          <div className="font-medium text-gray-800 truncate" title={line.productName}>{line.productName}</div>
+                          <div className="text-xs text-gray-400">{line.category}</div>
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-500">{line.suggestedQty}</td>
+                        <td className="px-4 py-3 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step={Math.max(1, line.packSize)}
+                            value={line.qty}
+                            onChange={e => {
+                              const qty = Math.max(0, Math.round(Number(e.target.value) || 0));
+                              updateLines(selected.id, o => o.lines.map(l => l.productName === line.productName ? { ...l, qty } : l));
+                            }}
+                            className="w-20 bg-gray-50 border border-gray-300 text-sm rounded p-1 text-right"
+                          />
+                          {warning && (
+                            <div className="text-xs text-amber-600 flex items-center justify-end gap-1 mt-1">
+                              <AlertTriangle className="w-3 h-3" /> {warning}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right text-gray-600">
+                          {line.unitCost > 0 ? fmt(line.unitCost) : <span className="text-gray-400">無成本</span>}
+                        </td>
+                        <td className="px-4 py-3 text-right font-medium text-gray-800">{fmt(line.qty * line.unitCost)}</td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            onClick={() => updateLines(selected.id, o => o.lines.filter(l => l.productName !== line.productName))}
+                            className="p-1 text-gray-400 hover:text-red-500"
+                            title="移除"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="bg-gray-50 font-bold text-gray-800">
+                  <tr>
+                    <td className="px-4 py-3">合計</td>
+                    <td></td>
+                    <td className="px-4 py-3 text-right">{orderTotals(selected).totalQty}</td>
+                    <td></td>
+                    <td className="px-4 py-3 text-right">{fmt(orderTotals(selected).totalCost)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderBuilder;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { History, FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import { SessionSummary } from '../types';
+import { listSessions, renameSession, deleteSession } from '../services/sessionStore';
+
+interface Props {
+  onOpen: (id: string) => void;
+  disabled?: boolean;
+}
+
+const SessionHistory: React.FC<Props> = ({ onOpen, disabled }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || '無法讀取分析紀錄');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleRename = async (id: string) => {
+    const name = editName.trim();
+    try {
+      if (name) {
+        await renameSession(id, name);
+        await refresh();
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || '無法重新命名分析紀錄');
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!confirm(`確定刪除「${session.name}」？`)) return;
+    try {
+      await deleteSession(session.id);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || '無法刪除分析紀錄');
+    }
+  };
+
+  // 還沒有任何紀錄可顯示時 (例如資料庫無法開啟) 只顯示錯誤；否則錯誤顯示在清單上方，下次操作成功時清除
+  if (sessions.length === 0) {
+    return error ? <p className="text-xs text-gray-400 text-center">{error}</p> : null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-500" />
+          歷史分析紀錄 ({sessions.length})
+        </h3>
+      </div>
+      {error && (
+        <div className="px-4 py-2 bg-red-50 text-xs text-red-700 flex items-center justify-between gap-2">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600" title="關閉">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <div className="divide-y divide-gray-100 max-h-[360px] overflow-y-auto">
+        {sessions.map(session => (
+          <div key={session.id} className="p-4 flex items-center gap-3 hover:bg-gray-50">
+            <div className="flex-1 min-w-0">
+              {editingId === session.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename(session.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-gray-50 border border-gray-300 text-sm rounded p-1"
+                  />
+                  <button onClick={() => handleRename(session.id)} className="p-1 text-emerald-600"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-gray-400"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <div className="font-medium text-gray-800 truncate" title={session.name}>{session.name}</div>
+              )}
+              <div className="text-xs text-gray-500 mt-1 truncate" title={session.fileNames.join(', ')}>
+                {new Date(session.updatedAt).toLocaleString('zh-TW')} · {session.recordCount.toLocaleString()} 筆 · {session.productCount} 項商品
+              </div>
+            </div>
+            <button
+              onClick={() => { setEditingId(session.id); setEditName(session.name); }}
+              className="p-2 text-gray-400 hover:text-gray-700"
+              title="重新命名"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleDelete(session)}
+              className="p-2 text-gray-400 hover:text-red-500"
+              title="刪除"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onOpen(session.id)}
+              disabled={disabled}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+            >
+              <FolderOpen className="w-4 h-4" /> 開啟
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Layers } from 'lucide-react';
+import { SheetSource } from '../types';
+
+interface Props {
+  sheets: SheetSource[];
+  onConfirm: (selected: SheetSource[]) => void;
+  onCancel: () => void;
+}
+
+const sheetKey = (s: SheetSource) => `${s.fileName}::${s.sheetName}`;
+
+const SheetSelector: React.FC<Props> = ({ sheets, onConfirm, onCancel }) => {
+  // 預設勾選所有有資料的工作表
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(sheets.filter(s => s.rows.length > 0).map(sheetKey))
+  );
+
+  const fileNames: string[] = Array.from(new Set(sheets.map(s => s.fileName)));
+  const chosen = sheets.filter(s => selected.has(sheetKey(s)));
+  const totalRows = chosen.reduce((a, s) => a + s.rows.length, 0);
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleFile = (fileName: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      sheets
+        .filter(s => s.fileName === fileName && s.rows.length > 0)
+        .forEach(s => checked ? next.add(sheetKey(s)) : next.delete(sheetKey(s)));
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100 mb-8 text-left">
+      <div className="flex items-center gap-2 mb-1">
+        <Layers className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-800">選擇要匯入的工作表</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">已讀取 {fileNames.length} 個檔案、{sheets.length} 個工作表</p>
+
+      <div className="space-y-4 mb-4 max-h-[400px] overflow-y-auto">
+        {fileNames.map(fileName => {
+          const fileSheets = sheets.filter(s => s.fileName === fileName);
+          const allChecked = fileSheets.filter(s => s.rows.length > 0).every(s => selected.has(sheetKey(s)));
+          return (
+            <div key={fileName} className="border border-gray-200 rounded-lg overflow-hidden">
+              <label className="flex items-center gap-2 px-4 py-2 bg-gray-50 font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allChecked}
+                  onChange={e => toggleFile(fileName, e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                <FileSpreadsheet className="w-4 h-4 text-green-600" />
+                <span className="truncate" title={fileName}>{fileName}</span>
+              </label>
+              <div className="divide-y divide-gray-100">
+                {fileSheets.map(sheet => {
+                  const key = sheetKey(sheet);
+                  const isEmpty = sheet.rows.length === 0;
+                  return (
+                    <label
+                      key={key}
+                      className={`flex items-center justify-between px-4 py-2 pl-10 text-sm ${isEmpty ? 'text-gray-300' : 'text-gray-700 cursor-pointer hover:bg-gray-50'}`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(key)}
+                          disabled={isEmpty}
+                          onChange={() => toggle(key)}
+                          className="w-4 h-4 text-blue-600 rounded"
+                        />
+                        {sheet.sheetName}
+                      </span>
+                      <span className="text-xs">{sheet.rows.length.toLocaleString()} 筆</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-500">
+          已選 {chosen.length} 個工作表，共 {totalRows.toLocaleString()} 筆
+        </span>
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 font-medium">
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(chosen)}
+            disabled={totalRows === 0}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            下一步
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetSelector;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Warehouse, Upload, X, AlertTriangle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { StockPosition, StockSnapshot, StockoutRisk } from '../types';
+import { parseStockSnapshot } from '../utils/stockSnapshot';
+
+interface Props {
+  snapshot?: StockSnapshot;
+  positions: StockPosition[];
+  unmatched: string[];
+  notice?: string; // 無法計算補貨建議的原因 (例如快照沒有所選門市)
+  onSnapshotChange: (snapshot: StockSnapshot | null) => void;
+}
+
+const RISK_STYLES: Record<StockoutRisk, { label: string; className: string }> = {
+  OUT: { label: '已缺貨', className: 'bg-red-600 text-white' },
+  HIGH: { label: '高風險', className: 'bg-red-100 text-red-700' },
+  MEDIUM: { label: '需補貨', className: 'bg-amber-100 text-amber-700' },
+  LOW: { label: '充足', className: 'bg-emerald-100 text-emerald-700' }
+};
+
+const MAX_ROWS = 100;
+
+const StockSnapshotPanel: React.FC<Props> = ({ snapshot, positions, unmatched, notice, onSnapshotChange }) => {
+  const [problems, setProblems] = useState<string[]>([]);
+  const [filterRisk, setFilterRisk] = useState<StockoutRisk | 'All'>('All');
+
+  const riskCounts = useMemo(() => {
+    const counts: Record<StockoutRisk, number> = { OUT: 0, HIGH: 0, MEDIUM: 0, LOW: 0 };
+    positions.forEach(p => { counts[p.stockoutRisk] += 1; });
+    return counts;
+  }, [positions]);
+
+  const visible = filterRisk === 'All' ? positions : positions.filter(p => p.stockoutRisk === filterRisk);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      try {
+        const workbook = XLSX.read(ev.target?.result, { type: 'binary' });
+        // 取第一個有資料的工作表
+        const rows = workbook.SheetNames
+          .map(name => XLSX.utils.sheet_to_json(workbook.Sheets[name]))
+          .find(r => r.length > 0) || [];
+        const result = parseStockSnapshot(rows, file.name);
+        setProblems(result.problems);
+        if (result.snapshot) onSnapshotChange(result.snapshot);
+      } catch (err) {
+        console.error(`Error parsing ${file.name}:`, err);
+        setProblems(['無法讀取庫存檔，請確認為 Excel 或 CSV 格式']);
+      }
+    };
+    reader.readAsBinaryString(file);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Warehouse className="w-5 h-5 text-blue-500" />
+            庫存現況與補貨建議
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {snapshot
+              ? `${snapshot.fileName} · ${new Date(snapshot.importedAt).toLocaleString('zh-TW')} · ${snapshot.levels.length} 列`
+              : '上傳庫存快照 (商品、現有庫存、在途、倉庫/門市)，計算扣除庫存後的實際進貨量'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {snapshot && (
+            <button
+              onClick={() => onSnapshotChange(null)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+            >
+              <X className="w-3 h-3" /> 移除
+            </button>
+          )}
+          <label className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700 cursor-pointer">
+            <Upload className="w-3 h-3" /> {snapshot ? '更新庫存檔' : '上傳庫存檔'}
+            <input type="file" className="hidden" accept=".csv, .xlsx, .xls" onChange={handleFile} />
+          </label>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-4 bg-red-50 text-sm text-red-700 space-y-1">
+          {problems.map(p => <p key={p}>{p}</p>)}
+        </div>
+      )}
+
+      {snapshot && notice && (
+        <div className="p-4 bg-amber-50 text-sm text-amber-800 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {notice}
+        </div>
+      )}
+
+      {snapshot && !notice && (
+        <>
+          <div className="p-4 flex flex-wrap gap-2 items-center border-b border-gray-100">
+            <button
+              onClick={() => setFilterRisk('All')}
+              className={`px-3 py-1 text-xs rounded-full border ${filterRisk === 'All' ? 'border-blue-500 text-blue-600' : 'border-gray-200 text-gray-600'}`}
+            >
+              全部 ({positions.length})
+            </button>
+            {(Object.keys(RISK_STYLES) as StockoutRisk[]).map(risk => (
+              <button
+                key={risk}
+                onClick={() => setFilterRisk(risk)}
+                className={`px-3 py-1 text-xs rounded-full border ${filterRisk === risk ? 'border-blue-500' : 'border-gray-200'} ${RISK_STYLES[risk].className}`}
+              >
+                {RISK_STYLES[risk].label} ({riskCounts[risk]})
+              </button>
+            ))}
+            {unmatched.length > 0 && (
+              <span className="ml-auto flex items-center gap-1 text-xs text-amber-600" title={unmatched.join('\n')}>
+                <AlertTriangle className="w-3 h-3" /> {unmatched.length} 項庫存商品名稱對應不到銷售商品 (從未銷售或名稱不同)
+              </span>
+            )}
+          </div>
+          <div className="overflow-x-auto max-h-[480px]">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">商品名稱</th>
+                  <th className="px-4 py-3">風險</th>
+                  <th className="px-4 py-3 text-right">現有</th>
+                  <th className="px-4 py-3 text-right">在途</th>
+                  <th className="px-4 py-3 text-right">可銷售天數</th>
+                  <th className="px-4 py-3 text-right">再訂購點</th>
+                  <th className="px-4 py-3 text-right">目標庫存</th>
+                  <th className="px-4 py-3 text-right">淨進貨量</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.slice(0, MAX_ROWS).map(p => (
+                  <tr key={p.productName} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-800 max-w-[220px] truncate" title={p.productName}>
+                      {p.productName}
+                      {p.noSales && <span className="ml-2 px-1.5 py-0.5 text-xs font-normal rounded bg-gray-100 text-gray-500" title="期間內沒有銷售，需求視為 0">呆滯</span>}
+                      {p.locations.length > 0 && (
+                        <div className="text-xs text-gray-400 font-normal truncate">{p.locations.join('、')}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 text-xs rounded ${RISK_STYLES[p.stockoutRisk].className}`}>
+                        {RISK_STYLES[p.stockoutRisk].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">{p.onHand}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{p.onOrder}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{p.daysOfCover ?? '無銷售'}</td>
+                    <td className="px-4 py-3 text-right text-blue-600">{p.reorderPoint}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{p.targetStock}</td>
+                    <td className="px-4 py-3 text-right font-bold text-emerald-600">{p.netOrderQty}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StockSnapshotPanel;
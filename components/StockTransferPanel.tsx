@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { ArrowRightLeft, FileSpreadsheet, Info } from 'lucide-react';
+import { InventorySettings, ProductPerformance, SalesRecord, StockSnapshot } from '../types';
+import { TRANSFER_REASON_LABELS, exportTransfersXlsx, suggestTransfers } from '../utils/stockTransfer';
+
+interface Props {
+  records: SalesRecord[];
+  snapshot?: StockSnapshot;
+  performance: ProductPerformance[];
+  inventorySettings: InventorySettings;
+}
+
+const MAX_ROWS = 50;
+
+const StockTransferPanel: React.FC<Props> = ({ records, snapshot, performance, inventorySettings }) => {
+  const plan = useMemo(
+    () => snapshot ? suggestTransfers(records, snapshot, inventorySettings, performance) : null,
+    [records, snapshot, inventorySettings, performance]
+  );
+
+  const fmtNum = (n: number) => new Intl.NumberFormat('zh-TW').format(n);
+  const fmtDays = (d: number | null) => d === null ? '-' : `${d} 天`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+        <div>
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-indigo-500" />
+            門市調撥建議
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">先由滯銷或庫存過多的門市調撥給快缺貨的門市，再針對剩餘缺口採購</p>
+        </div>
+        {plan && plan.transfers.length > 0 && (
+          <button
+            onClick={() => exportTransfersXlsx(plan.transfers)}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-emerald-700 border border-emerald-200 rounded-lg hover:bg-emerald-50"
+          >
+            <FileSpreadsheet className="w-3 h-3" /> 匯出調撥單
+          </button>
+        )}
+      </div>
+
+      {!plan ? (
+        <p className="p-6 text-sm text-gray-400 text-center">
+          請先在「庫存建議」分頁匯入含「倉庫/門市」欄位的庫存快照，位置名稱需與銷售資料的門市相同
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+            <div className="border border-gray-100 rounded-lg p-3">
+              <div className="text-xs text-gray-500">建議調撥</div>
+              <div className="text-xl font-bold text-indigo-600">{fmtNum(plan.transfers.reduce((a, t) => a + t.quantity, 0))} 件</div>
+              <div className="text-xs text-gray-400">{plan.transfers.length} 筆</div>
+            </div>
+            <div className="border border-gray-100 rounded-lg p-3">
+              <div className="text-xs text-gray-500">門市缺口 (不調撥)</div>
+              <div className="text-xl font-bold text-gray-800">{fmtNum(plan.purchaseQtyBefore)} 件</div>
+            </div>
+            <div className="border border-gray-100 rounded-lg p-3">
+              <div className="text-xs text-gray-500">調撥後仍需採購</div>
+              <div className="text-xl font-bold text-emerald-600">{fmtNum(plan.purchaseQtyAfter)} 件</div>
+              <div className="text-xs text-gray-400">{plan.remainingNeeds.length} 項門市商品</div>
+            </div>
+          </div>
+
+          {(plan.unknownLocations.length > 0 || plan.unlocatedLevels > 0) && (
+            <div className="mx-4 mb-4 p-3 rounded-lg bg-amber-50 border border-amber-100 text-xs text-amber-800 flex items-start gap-2">
+              <Info className="w-4 h-4 shrink-0" />
+              <span>
+                {plan.unknownLocations.length > 0 && `快照位置「${plan.unknownLocations.join('、')}」不是銷售資料中的門市，未納入調撥。`}
+                {plan.unlocatedLevels > 0 && ` ${plan.unlocatedLevels} 列庫存沒有位置，未納入調撥。`}
+              </span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-[480px]">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">商品名稱</th>
+                  <th className="px-4 py-3">調出 → 調入</th>
+                  <th className="px-4 py-3 text-right">數量</th>
+                  <th className="px-4 py-3">原因</th>
+                  <th className="px-4 py-3 text-right">調出門市可售</th>
+                  <th className="px-4 py-3 text-right">調入門市可售</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {plan.transfers.slice(0, MAX_ROWS).map(t => (
+                  <tr key={`${t.productName}|${t.fromStore}|${t.toStore}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 max-w-[260px]">
+                      <div className="font-medium text-gray-800 truncate" title={t.productName}>{t.productName}</div>
+                      <div className="text-xs text-gray-400">{t.category}</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{t.fromStore} → {t.toStore}</td>
+                    <td className="px-4 py-3 text-right font-bold text-indigo-600">{fmtNum(t.quantity)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${t.reason === 'SLOW_MOVING' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}>
+                        {TRANSFER_REASON_LABELS[t.reason]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {fmtNum(t.fromOnHand)} 件 / {fmtDays(t.fromDaysOfCover)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {fmtNum(t.toOnHand)} 件 / {fmtDays(t.toDaysOfCover)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {plan.transfers.length === 0 && (
+              <p className="p-6 text-sm text-gray-400 text-center">目前沒有可互相調撥的商品 (缺貨門市的需求無法由其他門市的多餘庫存支應)</p>
+            )}
+            {plan.transfers.length > MAX_ROWS && (
+              <p className="p-3 text-xs text-gray-400 text-center">僅顯示最急迫的 {MAX_ROWS} 筆，完整清單請匯出</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StockTransferPanel;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { Store, Tags, Package } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ABCClass, InventorySettings, ProductPerformance, SalesRecord } from '../types';
+import { analyzeStores, calculateStoreInventory } from '../utils/storeAnalysis';
+
+interface Props {
+  records: SalesRecord[];               // 已套用門市以外的篩選
+  performance: ProductPerformance[];    // 整體 ABC 分級
+  inventorySettings: InventorySettings;
+  onSelectStore: (store: string) => void;
+}
+
+const MAX_BRAND_COLUMNS = 8;
+const MAX_INVENTORY_ROWS = 30;
+
+const ABC_COLORS: Record<ABCClass, string> = {
+  [ABCClass.A]: 'bg-emerald-500',
+  [ABCClass.B]: 'bg-amber-400',
+  [ABCClass.C]: 'bg-gray-300'
+};
+
+const StoreComparisonPanel: React.FC<Props> = ({ records, performance, inventorySettings, onSelectStore }) => {
+  const [inventoryStore, setInventoryStore] = useState<string | null>(null);
+
+  const stores = useMemo(() => analyzeStores(records, performance), [records, performance]);
+  const inventory = useMemo(
+    () => calculateStoreInventory(records, inventorySettings, performance),
+    [records, inventorySettings, performance]
+  );
+
+  // 品牌欄位：全部門市合計的前幾大品牌
+  const brandColumns = useMemo(() => {
+    const totals = new Map<string, number>();
+    stores.forEach(s => s.brandShare.forEach(b => totals.set(b.brand, (totals.get(b.brand) || 0) + b.revenue)));
+    return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).slice(0, MAX_BRAND_COLUMNS).map(([brand]) => brand);
+  }, [stores]);
+
+  const fmt = (n: number) => new Intl.NumberFormat('zh-TW', { style: 'currency', currency: 'TWD', maximumFractionDigits: 0 }).format(n);
+  const fmtNum = (n: number) => new Intl.NumberFormat('zh-TW').format(n);
+
+  if (stores.length === 0) {
+    return <div className="text-center py-12 text-gray-500">資料沒有門市欄位，匯入時對應「門市」欄位即可比較各門市</div>;
+  }
+
+  const selectedInventory = inventory.find(i => i.store === inventoryStore) || inventory[0];
+
+  return (
+    <div className="space-y-6">
+      {/* 門市營收與 ABC 組成 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50">
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Store className="w-5 h-5 text-blue-500" />
+            門市營收比較
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">ABC 組成依整體分級計算各等級商品占該門市營收的比例；點選門市可套用至篩選列</p>
+        </div>
+        <div className="h-[240px] p-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={stores}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="store" tick={{ fontSize: 11 }} />
+              <YAxis tickFormatter={v => `${Math.round(v / 1000)}k`} />
+              <Tooltip formatter={(val: number) => fmt(val)} />
+              <Bar dataKey="revenue" name="營收" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-4 py-3">門市</th>
+                <th className="px-4 py-3">通路</th>
+                <th className="px-4 py-3 text-right">營收</th>
+                <th className="px-4 py-3 text-right">占比</th>
+                <th className="px-4 py-3 text-right">交易數</th>
+                <th className="px-4 py-3 text-right">客單價</th>
+                <th className="px-4 py-3 text-right">品項數</th>
+                <th className="px-4 py-3 w-48">ABC 組成</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {stores.map(s => (
+                <tr key={s.store} onClick={() => onSelectStore(s.store)} className="hover:bg-blue-50 cursor-pointer">
+                  <td className="px-4 py-3 font-medium text-gray-800">{s.store}</td>
+                  <td className="px-4 py-3 text-gray-500">{s.channels.join(' / ') || '-'}</td>
+                  <td className="px-4 py-3 text-right text-gray-800">{fmt(s.revenue)}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{s.share}%</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{fmtNum(s.transactionCount)}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{s.transactionCount > 0 ? fmt(s.revenue / s.transactionCount) : '-'}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">{s.productCount}</td>
+                  <td className="px-4 py-3">
+                    <div
+                      className="flex h-2.5 rounded-full overflow-hidden bg-gray-100"
+                      title={`A ${s.abcMix[ABCClass.A]}% / B ${s.abcMix[ABCClass.B]}% / C ${s.abcMix[ABCClass.C]}%`}
+                    >
+                      {[ABCClass.A, ABCClass.B, ABCClass.C].map(c => (
+                        <span key={c} className={ABC_COLORS[c]} style={{ width: `${Math.max(0, s.abcMix[c])}%` }} />
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">A {s.abcMix[ABCClass.A]}% · B {s.abcMix[ABCClass.B]}% · C {s.abcMix[ABCClass.C]}%</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 品牌占比 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50">
+          <h3 className="font-bold text-gray-700 flex items-center gap-2">
+            <Tags className="w-5 h-5 text-purple-500" />
+            各門市品牌占比
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">全部門市合計前 {MAX_BRAND_COLUMNS} 大品牌占各門市營收的比例，顏色越深占比越高</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-4 py-3 text-left">門市</th>
+                {brandColumns.map(b => <th key={b} className="px-3 py-3 text-right whitespace-nowrap">{b}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {stores.map(s => (
+                <tr key={s.store}>
+                  <td className="px-4 py-2 font-medium text-gray-800 whitespace-nowrap">{s.store}</td>
+                  {brandColumns.map(b => {
+                    const share = s.brandShare.find(x => x.brand === b)?.share;
+                    return (
+                      <td
+                        key={b}
+                        className="px-3 py-2 text-right text-gray-800"
+                        style={{ backgroundColor: share ? `rgba(139, 92, 246, ${Math.min(0.6, share / 100 + 0.05)})` : undefined }}
+                      >
+                        {share !== undefined ? `${share}%` : <span className="text-gray-300">-</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 各門市補貨建議 */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap gap-3 justify-between items-center">
+          <div>
+            <h3 className="font-bold text-gray-700 flex items-center gap-2">
+              <Package className="w-5 h-5 text-emerald-500" />
+              各門市補貨建議
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              以門市自己的銷售計算安全庫存與再訂購點，建議量為日均銷量 × 30；在篩選列選擇門市後，「庫存建議」分頁會改用預測模型與該門市的庫存快照
+            </p>
+          </div>
+          <select
+            value={selectedInventory?.store}
+            onChange={e => setInventoryStore(e.target.value)}
+            className="bg-white border border-gray-300 text-sm rounded-lg p-2"
+          >
+            {inventory.map(i => <option key={i.store} value={i.store}>{i.store}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4">
+          {inventory.map(i => (
+            <button
+              key={i.store}
+              onClick={() => setInventoryStore(i.store)}
+              className={`text-left border rounded-lg p-3 ${i.store === selectedInventory?.store ? 'border-emerald-400 bg-emerald-50' : 'border-gray-100 hover:bg-gray-50'}`}
+            >
+              <div className="font-medium text-gray-800 truncate">{i.store}</div>
+              <div className="text-xs text-gray-500 mt-1">建議進貨 {fmtNum(i.totalSuggestedQty)} 件 · 安全庫存 {fmtNum(i.totalSafetyStock)} 件</div>
+            </button>
+          ))}
+        </div>
+        {selectedInventory && (
+          <div className="overflow-x-auto max-h-[420px]">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">商品名稱</th>
+                  <th className="px-4 py-3">分級</th>
+                  <th className="px-4 py-3 text-right">日均銷量</th>
+                  <th className="px-4 py-3 text-right">安全庫存</th>
+                  <th className="px-4 py-3 text-right">再訂購點</th>
+                  <th className="px-4 py-3 text-right">建議進貨量</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {selectedInventory.metrics.slice(0, MAX_INVENTORY_ROWS).map(m => (
+                  <tr key={m.productName} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-800 max-w-[260px] truncate" title={m.productName}>
+                      {m.productName}
+                      <div className="text-xs text-gray-400 font-normal">{m.category}</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{m.abcClass}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{m.avgDailySales}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{m.safetyStock}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{m.reorderPoint}</td>
+                    <td className="px-4 py-3 text-right font-bold text-emerald-600">{fmtNum(m.suggestedOrderQty)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {selectedInventory.metrics.length > MAX_INVENTORY_ROWS && (
+              <p className="p-3 text-xs text-gray-400 text-center">僅顯示日均銷量前 {MAX_INVENTORY_ROWS} 項</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoreComparisonPanel;
@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { Truck, Plus, Trash2, RotateCcw, Check } from 'lucide-react';
+import { ABCClass, InventorySettings, SalesRecord, SupplierSettings } from '../types';
+import { DEFAULT_INVENTORY_SETTINGS, loadInventorySettings, saveInventorySettings } from '../utils/supplierSettings';
+
+interface Props {
+  records: SalesRecord[];
+  onSettingsChange: (settings: InventorySettings) => void;
+}
+
+type NumericField = 'leadTimeDays' | 'leadTimeStdDays' | 'moq' | 'packSize';
+
+const FIELDS: { field: NumericField; label: string; min: number }[] = [
+  { field: 'leadTimeDays', label: '前置天數', min: 0 },
+  { field: 'leadTimeStdDays', label: '交期波動 (天)', min: 0 },
+  { field: 'moq', label: 'MOQ', min: 1 },
+  { field: 'packSize', label: '每箱入數', min: 1 }
+];
+
+const toNumber = (val: string, min: number) => Math.max(min, Number(val) || 0);
+
+const SupplierSettingsEditor: React.FC<Props> = ({ records, onSettingsChange }) => {
+  const [draft, setDraft] = useState<InventorySettings>(() => loadInventorySettings());
+  const [newBrand, setNewBrand] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+
+  // 資料中出現、但尚未設定的品牌
+  const availableBrands = useMemo(() => {
+    const configured = new Set(draft.suppliers.map(s => s.brand));
+    return Array.from(new Set(records.map(r => r.Brand))).filter(b => !configured.has(b)).sort();
+  }, [records, draft.suppliers]);
+
+  const update = (next: InventorySettings) => {
+    setDraft(next);
+    setIsDirty(true);
+  };
+
+  const apply = (next: InventorySettings) => {
+    saveInventorySettings(next);
+    setDraft(next);
+    setIsDirty(false);
+    onSettingsChange(next);
+  };
+
+  const updateSupplier = (idx: number, patch: Partial<SupplierSettings>) =>
+    update({ ...draft, suppliers: draft.suppliers.map((s, i) => i === idx ? { ...s, ...patch } : s) });
+
+  const addSupplier = () => {
+    const brand = newBrand.trim();
+    if (!brand || draft.suppliers.some(s => s.brand === brand)) return;
+    update({ ...draft, suppliers: [...draft.suppliers, { brand, ...draft.defaults }] });
+    setNewBrand('');
+  };
+
+  const handleReset = () => {
+    if (!confirm('確定要還原為預設補貨參數？各品牌設定將會遺失。')) return;
+    apply(DEFAULT_INVENTORY_SETTINGS);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-bold text-gray-700 flex items-center gap-2">
+          <Truck className="w-5 h-5 text-blue-500" />
+          供應商補貨參數
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={() => apply(draft)}
+            disabled={!isDirty}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" /> 套用並重新計算
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* 服務水準 */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">目標服務水準 (依 ABC 等級)</label>
+          <div className="grid grid-cols-3 gap-3">
+            {[ABCClass.A, ABCClass.B, ABCClass.C].map(abc => (
+              <div key={abc} className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-16">{abc}</span>
+                <input
+                  type="number"
+                  min={50}
+                  max={99.9}
+                  step={0.5}
+                  value={draft.serviceLevels[abc]}
+                  onChange={e => update({
+                    ...draft,
+                    serviceLevels: { ...draft.serviceLevels, [abc]: Math.min(99.9, toNumber(e.target.value, 50)) }
+                  })}
+                  className="w-20 bg-gray-50 border border-gray-300 text-sm rounded p-1 text-right"
+                />
+                <span className="text-xs text-gray-500">%</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">服務水準越高，安全庫存越多 (95% ≈ Z 1.65，98% ≈ Z 2.05)</p>
+        </div>
+
+        {/* 品牌參數 */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="text-left p-2">供應商 / 品牌</th>
+                {FIELDS.map(f => <th key={f.field} className="text-right p-2">{f.label}</th>)}
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <tr className="bg-blue-50/50">
+                <td className="p-2 font-medium text-gray-700">預設 (未設定的品牌)</td>
+                {FIELDS.map(f => (
+                  <td key={f.field} className="p-2 text-right">
+                    <input
+                      type="number"
+                      min={f.min}
+                      value={draft.defaults[f.field]}
+                      onChange={e => update({ ...draft, defaults: { ...draft.defaults, [f.field]: toNumber(e.target.value, f.min) } })}
+                      className="w-20 bg-white border border-gray-300 text-sm rounded p-1 text-right"
+                    />
+                  </td>
+                ))}
+                <td></td>
+              </tr>
+              {draft.suppliers.map((supplier, idx) => (
+                <tr key={supplier.brand}>
+                  <td className="p-2 text-gray-800">{supplier.brand}</td>
+                  {FIELDS.map(f => (
+                    <td key={f.field} className="p-2 text-right">
+                      <input
+                        type="number"
+                        min={f.min}
+                        value={supplier[f.field]}
+                        onChange={e => updateSupplier(idx, { [f.field]: toNumber(e.target.value, f.min) })}
+                        className="w-20 bg-gray-50 border border-gray-300 text-sm rounded p-1 text-right"
+                      />
+                    </td>
+                  ))}
+                  <td className="p-2 text-right">
+                    <button
+                      onClick={() => update({ ...draft, suppliers: draft.suppliers.filter((_, i) => i !== idx) })}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            list="supplier-brand-options"
+            value={newBrand}
+            onChange={e => setNewBrand(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addSupplier()}
+            placeholder="新增品牌設定"
+            className="flex-1 bg-gray-50 border border-gray-300 text-sm rounded-lg p-2"
+          />
+          <datalist id="supplier-brand-options">
+            {availableBrands.map(b => <option key={b} value={b} />)}
+          </datalist>
+          <button
+            onClick={addSupplier}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" /> 新增
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierSettingsEditor;
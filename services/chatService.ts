@@ -1,7 +1,5 @@
-import { GoogleGenAI } from "@google/genai";
 import { SalesRecord, AnalysisResult } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { getGeminiClient } from "./geminiClient";
 
 export interface ChatMessage {
     role: 'user' | 'assistant';
@@ -99,7 +97,7 @@ ${question}
   `;
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await getGeminiClient().models.generateContent({
             model: modelId,
             contents: prompt
         });
@@ -0,0 +1,17 @@
+import { GoogleGenAI } from "@google/genai";
+
+let client: GoogleGenAI | null = null;
+
+/**
+ * 是否設定了 API 金鑰 (未設定時 AI 功能停用，其餘分析照常運作)
+ */
+export const hasApiKey = (): boolean => !!process.env.API_KEY;
+
+/**
+ * 延遲建立 Gemini 用戶端：未設定金鑰時 SDK 會在建構時拋錯，不能在模組載入時建立
+ */
+export const getGeminiClient = (): GoogleGenAI => {
+    if (!hasApiKey()) throw new Error("未設定 GEMINI_API_KEY，無法使用 AI 功能");
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client;
+};
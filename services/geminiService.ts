@@ -1,11 +1,15 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ProductPerformance, SeasonalityData, ProductDecision, DecisionTag, LifecycleStage } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+import { Type } from "@google/genai";
+import { ProductPerformance, SeasonalityData, ProductDecision, ABCClass } from "../types";
+import { getGeminiClient } from "./geminiClient";
+
+/**
+ * AI 改寫決策：決策標籤與生命週期由本地規則產生 (見 utils/decisionRules.ts)，
+ * AI 只針對代表性商品改寫理由與行動，並撰寫策略摘要
+ */
 export const generateDecisionMatrix = async (
   performanceData: ProductPerformance[],
-  seasonalityData: SeasonalityData[]
+  seasonalityData: SeasonalityData[],
+  ruleDecisions: ProductDecision[]
 ): Promise<{ decisions: ProductDecision[]; overallSummary: string }> => {
   // Use Gemini 3 Pro for advanced reasoning (replacing 2.5 Pro which is not available)
   const modelId = "gemini-3-pro-preview";
@@ -16,18 +20,20 @@ export const generateDecisionMatrix = async (
   // 2. Top 5 'B' Class items
   // 3. Bottom 5 'C' Class items (candidates for deletion)
 
-  const aClass = performanceData.filter(p => p.cumulativeShare <= 80);
-  const bClass = performanceData.filter(p => p.cumulativeShare > 80 && p.cumulativeShare <= 95).slice(0, 5);
-  const cClass = performanceData.filter(p => p.cumulativeShare > 95).slice(-5);
+  const aClass = performanceData.filter(p => p.abcClass === ABCClass.A);
+  const bClass = performanceData.filter(p => p.abcClass === ABCClass.B).slice(0, 5);
+  const cClass = performanceData.filter(p => p.abcClass === ABCClass.C).slice(-5);
 
   const sampleData = [...aClass, ...bClass, ...cClass];
+  const ruleMap = new Map(ruleDecisions.map(d => [d.productName, d]));
 
   const prompt = `
     你是一個專業的「零售供應鏈決策系統」。請根據以下數據進行庫存與採購分析。
 
     【分析邏輯】
     1. **ABC 分析**：A類商品(Top 80%營收)不可缺貨；C類商品若低週轉應考慮淘汰。
-    2. **生命週期**：識別新品(近期頻率高)、成熟品(穩定)、衰退品(量減)。
+       XYZ 為需求穩定度 (X 穩定、Y 波動、Z 不規則)，Z 類不宜大量備貨。
+    2. **生命週期**：Lifecycle 已由系統依首次銷售日、週銷量趨勢 (TrendPct，每週變動 %) 與近期/過去速度比 (VelocityRatio) 計算，請直接採用，不要自行判斷；新品不宜因總量低而淘汰，衰退品應控制庫存。
     3. **陳列策略**：高單價+低週轉 = 形象陳列；低單價+高週轉 = 堆箱陳列。
 
     【輸入數據】
@@ -36,26 +42,34 @@ export const generateDecisionMatrix = async (
     Product: i.productName,
     Category: i.category,
     ABC: i.abcClass,
+    XYZ: i.xyzClass,
     AvgPrice: i.averagePrice,
     TotalQty: i.totalQty,
-    Freq: i.salesFrequency
+    ReturnRate: i.returnRate,
+    Freq: i.salesFrequency,
+    Lifecycle: i.lifecycle,
+    FirstSale: i.lifecycleSignals?.firstSaleDate,
+    VelocityRatio: i.lifecycleSignals?.velocityRatio,
+    TrendPct: i.lifecycleSignals?.trendSlope,
+    Decision: ruleMap.get(i.productName)?.tag,
+    RuleReason: ruleMap.get(i.productName)?.reason
   })), null, 2)}
 
     2. 季節性趨勢 (Seasonality):
     ${JSON.stringify(seasonalityData, null, 2)}
 
     【輸出要求】
-    請針對上述每一個商品提供決策建議。
-    特別注意：若為 C 類且頻率低，請大膽建議「${DecisionTag.STOP_ORDER}」。
-    若為 A 類，請建議「${DecisionTag.MAIN_STOCK}」。
+    每個商品的決策 (Decision) 已由規則引擎決定，請勿更改。
+    請針對上述每一個商品，依數據把 RuleReason 改寫為更具體的決策理由，並提供可執行的行動建議。
   `;
 
-  // 加入超時控制
-  const timeoutPromise = new Promise<never>((_, reject) =>
-    setTimeout(() => reject(new Error("AI 分析超時，請稍後再試 (300秒)")), 300000)
-  );
+  // 加入超時控制 (完成後清除計時器)
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("AI 分析超時，請稍後再試 (300秒)")), 300000);
+  });
 
-  const apiPromise = ai.models.generateContent({
+  const apiPromise = getGeminiClient().models.generateContent({
     model: modelId,
     contents: prompt,
     config: {
@@ -70,29 +84,10 @@ export const generateDecisionMatrix = async (
               type: Type.OBJECT,
               properties: {
                 productName: { type: Type.STRING },
-                category: { type: Type.STRING },
-                tag: {
-                  type: Type.STRING,
-                  enum: [
-                    DecisionTag.MAIN_STOCK,
-                    DecisionTag.DISPLAY_ONLY,
-                    DecisionTag.STOP_ORDER,
-                    DecisionTag.WATCH_LIST
-                  ]
-                },
-                lifecycle: {
-                  type: Type.STRING,
-                  enum: [
-                    LifecycleStage.NEW,
-                    LifecycleStage.GROWTH,
-                    LifecycleStage.MATURE,
-                    LifecycleStage.DECLINE
-                  ]
-                },
                 reason: { type: Type.STRING, description: "決策理由 (例如: A類核心商品，週轉穩定)" },
                 action: { type: Type.STRING, description: "具體行動 (例如: 建立2週安全庫存)" }
               },
-              required: ["productName", "category", "tag", "lifecycle", "reason", "action"]
+              required: ["productName", "reason", "action"]
             }
           }
         },
@@ -101,7 +96,7 @@ export const generateDecisionMatrix = async (
     }
   });
 
-  const response = await Promise.race([apiPromise, timeoutPromise]);
+  const response = await Promise.race([apiPromise, timeoutPromise]).finally(() => clearTimeout(timer));
 
   const text = response.text;
   if (!text) throw new Error("AI 分析回傳空結果，請檢查網路連線。");
@@ -118,7 +113,16 @@ export const generateDecisionMatrix = async (
       parsed.overallSummary = "AI 未提供策略摘要";
     }
 
-    return parsed;
+    // 標籤與生命週期以規則為準，只採用 AI 改寫的理由與行動
+    const refined = new Map<string, { reason: string; action: string }>(
+      parsed.decisions.map((d: { productName: string; reason: string; action: string }) => [d.productName, d])
+    );
+    const decisions = ruleDecisions.map(d => {
+      const rewrite = refined.get(d.productName);
+      return rewrite?.reason ? { ...d, reason: rewrite.reason, action: rewrite.action || d.action, source: "AI" as const } : d;
+    });
+
+    return { decisions, overallSummary: parsed.overallSummary };
   } catch (parseError: any) {
     console.error("JSON Parse Error:", parseError, "Raw:", text?.substring(0, 500));
     throw new Error(`AI 回應解析失敗: ${parseError.message}`);
@@ -0,0 +1,151 @@
+import { AnalysisResult, AnalysisSession, SalesRecord, SessionSummary } from "../types";
+
+const DB_NAME = "salesAnalysis";
+const DB_VERSION = 1;
+// 摘要與完整資料分開存放，列出紀錄時不必載入整份銷售資料
+const META_STORE = "sessionMeta";
+const DATA_STORE = "sessionData";
+
+const openDb = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+            if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new Error(`無法開啟本機資料庫：${request.error?.message}`));
+    });
+};
+
+const runTransaction = async <T>(
+    stores: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(stores, mode);
+        const request = work(tx);
+        tx.oncomplete = () => {
+            db.close();
+            resolve(request ? request.result : undefined);
+        };
+        tx.onerror = () => {
+            db.close();
+            reject(new Error(`本機資料庫操作失敗：${tx.error?.message}`));
+        };
+        // 空間不足 (QuotaExceededError) 等情況只會觸發 abort，不處理的話 Promise 永遠不會結束
+        tx.onabort = () => {
+            db.close();
+            reject(new Error(`本機資料庫操作中止：${tx.error?.message || "空間不足或交易被取消"}`));
+        };
+    });
+};
+
+const buildSummary = (
+    id: string,
+    name: string,
+    createdAt: string,
+    fileNames: string[],
+    records: SalesRecord[],
+    result: AnalysisResult
+): SessionSummary => ({
+    id,
+    name,
+    createdAt,
+    updatedAt: new Date().toISOString(),
+    fileNames,
+    recordCount: records.length,
+    productCount: result.performanceMetrics.length
+});
+
+/**
+ * 儲存一次完整的分析 (銷售紀錄、計算結果、AI 決策)
+ */
+export const saveSession = async (
+    name: string,
+    fileNames: string[],
+    records: SalesRecord[],
+    result: AnalysisResult
+): Promise<string> => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const summary = buildSummary(id, name, new Date().toISOString(), fileNames, records, result);
+
+    await runTransaction([META_STORE, DATA_STORE], "readwrite", tx => {
+        tx.objectStore(META_STORE).put(summary);
+        tx.objectStore(DATA_STORE).put({ id, records, result });
+    });
+    return id;
+};
+
+/**
+ * 更新既有紀錄的資料 (例如品牌字典變更後重新歸類、追加新檔案)
+ */
+export const updateSessionData = async (
+    id: string,
+    records: SalesRecord[],
+    result: AnalysisResult,
+    fileNames?: string[]
+): Promise<void> => {
+    const existing = await runTransaction<SessionSummary>([META_STORE], "readonly", tx =>
+        tx.objectStore(META_STORE).get(id)
+    );
+    if (!existing) return;
+
+    const summary = buildSummary(id, existing.name, existing.createdAt, fileNames || existing.fileNames, records, result);
+    await runTransaction([META_STORE, DATA_STORE], "readwrite", tx => {
+        tx.objectStore(META_STORE).put(summary);
+        tx.objectStore(DATA_STORE).put({ id, records, result });
+    });
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const all = await runTransaction<SessionSummary[]>([META_STORE], "readonly", tx =>
+        tx.objectStore(META_STORE).getAll()
+    );
+    return (all || []).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadSession = async (id: string): Promise<AnalysisSession | null> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([META_STORE, DATA_STORE], "readonly");
+        const metaReq = tx.objectStore(META_STORE).get(id);
+        const dataReq = tx.objectStore(DATA_STORE).get(id);
+        tx.oncomplete = () => {
+            db.close();
+            if (!metaReq.result || !dataReq.result) {
+                resolve(null);
+                return;
+            }
+            resolve({ ...metaReq.result, records: dataReq.result.records, result: dataReq.result.result });
+        };
+        tx.onerror = () => {
+            db.close();
+            reject(new Error(`無法讀取分析紀錄：${tx.error?.message}`));
+        };
+        tx.onabort = () => {
+            db.close();
+            reject(new Error(`無法讀取分析紀錄：${tx.error?.message || "交易被取消"}`));
+        };
+    });
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const existing = await runTransaction<SessionSummary>([META_STORE], "readonly", tx =>
+        tx.objectStore(META_STORE).get(id)
+    );
+    if (!existing) return;
+    await runTransaction([META_STORE], "readwrite", tx => {
+        tx.objectStore(META_STORE).put({ ...existing, name });
+    });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await runTransaction([META_STORE, DATA_STORE], "readwrite", tx => {
+        tx.objectStore(META_STORE).delete(id);
+        tx.objectStore(DATA_STORE).delete(id);
+    });
+};
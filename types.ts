@@ -9,8 +9,20 @@ export interface SalesRecord {
   Cost?: number; // Optional
   Brand: string; // New field derived from Product Name
   isGift?: boolean; // 贈品標記
+  giftParent?: string; // 贈品所搭配的主商品 (同一交易中推定)
+  recordType?: RecordType; // 銷售、退貨 (Quantity/Amount 為負數) 或折扣調整 (Quantity 不變、Amount 為負數)
+  SourceFile?: string;  // 來源檔案
+  SourceSheet?: string; // 來源工作表
+  SourceRow?: number;   // 來源列號 (Excel 列號，含標題列)
+  RawProduct?: string;  // 合併前的原始商品名稱
+  ModelNumber?: string; // 由商品名稱擷取的型號
+  OrderId?: string;     // 訂單/發票編號 (匯出檔有此欄位時)
+  Store?: string;       // 門市/分店 (匯出檔有此欄位時)
+  Channel?: SalesChannel; // 銷售通路
 }
 
+export type RecordType = 'SALE' | 'RETURN' | 'ADJUSTMENT';
+
 // 1. Sales Contribution (Pareto / ABC)
 export enum ABCClass {
   A = 'A (核心)',
@@ -18,6 +30,13 @@ export enum ABCClass {
   C = 'C (長尾)',
 }
 
+// 需求變異 (XYZ)：依各期銷量的變異係數 (CV) 分級
+export enum XYZClass {
+  X = 'X (穩定)',
+  Y = 'Y (波動)',
+  Z = 'Z (不規則)',
+}
+
 export enum LifecycleStage {
   NEW = '新品導入',
   GROWTH = '成長期',
@@ -25,22 +44,45 @@ export enum LifecycleStage {
   DECLINE = '衰退期',
 }
 
+// 生命週期判斷依據 (本地計算，見 utils/lifecycle.ts)
+export interface LifecycleSignals {
+  firstSaleDate: string;
+  lastSaleDate: string | null;
+  ageDays: number;                    // 首次銷售至資料最後一天的天數
+  recentVelocity: number;             // 近期日均銷量
+  historicalVelocity: number | null;  // 近期以前的日均銷量，歷史不足時為 null
+  velocityRatio: number | null;       // 近期 / 過去
+  trendSlope: number | null;          // 週銷量趨勢：每週變動占平均週銷量的 %
+}
+
 export interface ProductPerformance {
   productName: string;
   category: string;
-  totalQty: number;
-  totalAmount: number;
+  totalQty: number;      // 淨銷量 (已扣除退貨)
+  totalAmount: number;   // 淨營收 (已扣除退款)
   averagePrice: number;
 
+  // Returns
+  grossQty: number;      // 退貨前銷量
+  returnQty: number;     // 退貨數量 (正數)
+  returnRate: number;    // 退貨率 % = 退貨數量 / 退貨前銷量
+
   // Advanced Metrics
   qtyShare: number;
   amountShare: number;
-  cumulativeShare: number;
+  cumulativeShare: number; // 依分級基準 (營收/銷量/毛利) 排序後的累積占比
   abcClass: ABCClass;
+  xyzClass: XYZClass;
+  demandCV: number | null; // 各期銷量變異係數，期數不足時為 null
+  grossProfit?: number;    // 該商品有成本資料時才計算
 
   // Velocity Metrics
-  salesFrequency: number; // How many unique days/months it sold
-  velocityScore: number; // Normalized score 0-100
+  salesFrequency: number; // How many unique days it sold
+  velocityScore: number; // 日均銷量百分位 0-100 (連續日曆序列)
+
+  // Lifecycle (依首次銷售日、趨勢與近期/過去速度判斷)
+  lifecycle: LifecycleStage;
+  lifecycleSignals?: LifecycleSignals;
 
   // Index signature for Recharts compatibility
   [key: string]: any;
@@ -49,15 +91,16 @@ export interface ProductPerformance {
 // 2. Seasonality
 export interface SeasonalityData {
   month: string;
-  sales: number;
-  revenue: number;
+  sales: number;      // 淨銷量
+  revenue: number;    // 淨營收
+  returnQty?: number; // 當月退貨數量
   topCategory: string;
   [key: string]: any;
 }
 
 // 3. Price Band Analysis
 export interface PriceBandMetric {
-  range: string;
+  range: string;      // 價位級距名稱 (各類別內的相對價位)
   salesCount: number;
   revenue: number;
   percent: number;
@@ -68,8 +111,10 @@ export interface PriceBandMetric {
 export interface BrandMetric {
   brand: string;
   revenue: number;
-  salesCount: number; // Added for volume analysis
+  salesCount: number; // Added for volume analysis (net of returns)
   percentage: number;
+  returnQty: number;
+  returnRate: number; // 退貨率 %
   [key: string]: any;
 }
 
@@ -96,6 +141,7 @@ export interface ProductDecision {
   lifecycle: LifecycleStage;
   reason: string;
   action: string;
+  source?: DecisionSource; // 規則產生或經 AI 改寫
 }
 
 export interface AnalysisResult {
@@ -112,6 +158,13 @@ export interface AnalysisResult {
   yoyComparison?: YoYComparison[];
   profitAnalysis?: ProfitAnalysis[];
   slowMovingAlerts?: SlowMovingAlert[];
+  dataQuality?: DataQualityReport;
+  giftAttachments?: GiftAttachment[];
+  productForecasts?: DemandForecast[];
+  categoryForecasts?: DemandForecast[];
+  stockSnapshot?: StockSnapshot;
+  decisionSource?: DecisionSource;
+  aiError?: string;        // AI 改寫失敗的原因 (決策仍由規則產生)
 }
 
 // ========== 核心功能增強類型 ==========
@@ -125,10 +178,63 @@ export interface InventoryMetrics {
   suggestedOrderQty: number;    // 建議進貨量 (30天需求)
   safetyStock: number;          // 安全庫存
   reorderPoint: number;         // 再訂購點 (安全庫存 + 前置期需求)
+  avgWeeklySales?: number;      // 週均銷量
+  sellingDayRatio?: number;     // 有銷售的天數比例 (%)
+  brand?: string;
+  abcClass?: ABCClass;
+  leadTimeDays?: number;        // 計算所用的前置天數
+  serviceLevel?: number;        // 計算所用的服務水準 (%)
+  moq?: number;
+  packSize?: number;
+  rawOrderQty?: number;         // 進位至箱數前的需求量
+  forecastMethod?: ForecastMethod; // 建議進貨量所依據的預測方法 (無則為日均 × 30)
   [key: string]: any;
 }
 
 // 需求預測結果
+export type ForecastMethod = 'HOLT_WINTERS' | 'SEASONAL_NAIVE' | 'HOLT' | 'CROSTON_SBA' | 'MOVING_AVERAGE' | 'NONE';
+
+// 單月預測值與預測區間
+export interface ForecastPoint {
+  month: string;         // YYYY-MM
+  revenue: number;
+  revenueLower: number;
+  revenueUpper: number;
+  qty: number;
+  qtyLower: number;
+  qtyUpper: number;
+}
+
+// 回測：保留最後幾個月不參與建模，比對預測與實際
+export interface ForecastBacktest {
+  holdoutMonths: number;
+  method: ForecastMethod;     // 訓練期較短時可能退回較簡單的方法
+  revenueMape: number | null; // 平均絕對百分比誤差 (%)，實際值皆為 0 時為 null
+  qtyMape: number | null;
+  revenueMae: number;         // 平均絕對誤差 (元)
+}
+
+// 品項/類別需求預測 (月銷量)
+export interface DemandForecast {
+  level: 'PRODUCT' | 'CATEGORY';
+  key: string;                 // 商品名稱或類別名稱
+  category: string;
+  method: ForecastMethod;
+  intermittent: boolean;       // 間歇性需求 (多數月份無銷售)
+  historyMonths: number;
+  nextMonthQty: number;
+  horizonQty: number[];        // 未來 1~6 個月
+  accuracy: DemandAccuracy | null;
+}
+
+// 滾動起點回測：每個起點只用之前的資料預測下一個月
+export interface DemandAccuracy {
+  origins: number;             // 回測次數
+  mape: number | null;         // %，僅計入實際值非 0 的月份
+  wape: number | null;         // Σ|誤差| / Σ實際 (%)
+  bias: number | null;         // Σ(預測 - 實際) / Σ實際 (%)，正值代表高估
+}
+
 export interface ForecastResult {
   nextMonthRevenue: number;
   nextMonthQty: number;
@@ -136,6 +242,11 @@ export interface ForecastResult {
   trendPercent: number;
   confidence: 'HIGH' | 'MEDIUM' | 'LOW';
   method: string;
+  // 舊版分析紀錄沒有以下欄位
+  methodCode?: ForecastMethod;
+  intervalLevel?: number;          // 預測區間信賴水準 (%)
+  points?: ForecastPoint[];        // 未來 1~6 個月
+  backtest?: ForecastBacktest | null;
 }
 
 // 同期比較 (年增率/月環比)
@@ -171,11 +282,469 @@ export interface SlowMovingAlert {
   [key: string]: any;
 }
 
+// ========== 時間序列 ==========
+
+export type Granularity = 'day' | 'week' | 'month';
+
+// 連續日曆序列：沒有銷售的期間補 0
+export interface TimeSeries {
+  key: string;
+  category: string;
+  granularity: Granularity;
+  periods: string[];   // 日：YYYY-MM-DD；週：該週週一 YYYY-MM-DD；月：YYYY-MM
+  values: number[];    // 各期淨銷量 (負值視為 0)
+}
+
+// ========== 資料品質 ==========
+
+export type DataIssueType =
+  | 'REJECTED'        // 整列被排除
+  | 'INVALID_DATE'    // 日期無法解析
+  | 'NON_NUMERIC'     // 數量/金額非數字
+  | 'DEFAULT_VALUE'   // 缺值，已套用預設值
+  | 'PRICE_OUTLIER'   // 單價異常
+  | 'ADJUSTMENT'      // 數量為正、金額為負 (折扣、折價券、價格調整)
+  | 'DUPLICATE';      // 重複列
+
+export interface DataQualityIssue {
+  type: DataIssueType;
+  severity: 'ERROR' | 'WARNING';
+  sourceFile?: string;
+  sourceSheet?: string;
+  rowNumber?: number;
+  field?: string;
+  value?: string;
+  product?: string;
+  message: string;
+}
+
+export interface DataQualityReport {
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  issues: DataQualityIssue[];
+}
+
+export interface NormalizationResult {
+  records: SalesRecord[];
+  report: DataQualityReport;
+}
+
 export interface RawInputData {
   fileName: string;
   records: SalesRecord[];
 }
 
+// ========== 匯入欄位對應 ==========
+
+// 可對應的標準欄位
+export type MappedField = 'Date' | 'Category' | 'Product' | 'Quantity' | 'Amount' | 'Cost' | 'OrderId' | 'Store' | 'Channel';
+
+// 標準欄位 → 原始欄位名稱 (null 代表未對應)
+export type ColumnMapping = Record<MappedField, string | null>;
+
+// 工作簿中的單一工作表 (匯入時選擇用)
+export interface SheetSource {
+  fileName: string;
+  sheetName: string;
+  rows: any[];
+}
+
+// 單一欄位的自動偵測結果
+export interface FieldDetection {
+  field: MappedField;
+  column: string | null;   // 系統選定的欄位
+  candidates: string[];    // 所有可能的欄位 (依信心排序)
+  ambiguous: boolean;      // 有多個欄位同樣可能
+}
+
+// ========== 品牌字典 ==========
+
+export interface BrandDefinition {
+  name: string;            // 標準品牌名稱 (例如 'Panasonic 國際')
+  aliases: string[];       // 中英文別名，商品名稱包含即視為此品牌
+  modelPrefixes: string[]; // 型號前綴 (例如 'NR-')
+}
+
+// 未歸類品牌的商品 (品牌字典管理用)
+export interface UnmatchedProduct {
+  productName: string;
+  qty: number;
+  revenue: number;
+}
+
+// ========== 商品識別 ==========
+
+// 同一商品的不同名稱寫法 (例如「Panasonic NR-B421TV 冰箱」與「國際牌 NR-B421TV」)
+export interface ProductGroup {
+  id: string;
+  canonicalName: string;  // 合併後使用的名稱
+  modelNumber?: string;
+  variants: string[];     // 原始商品名稱
+  revenue: number;
+}
+
+// ========== 贈品 ==========
+
+export interface GiftRules {
+  keywords: string[];    // 名稱含這些字視為贈品候選
+  exceptions: string[];  // 名稱含這些字一律不是贈品 (例如 送風機、禮盒組)
+}
+
+// 主商品與其搭贈贈品的關係
+export interface GiftAttachment {
+  mainProduct: string;
+  giftProduct: string;
+  mainQty: number;          // 主商品銷量
+  giftQty: number;          // 搭贈數量
+  giftCost: number;         // 贈品總成本
+  giftQtyPerSale: number;   // 每售出一台主商品的贈品數
+  giftCostPerSale: number;  // 每售出一台主商品的贈品成本
+}
+
+// ========== 分析紀錄 (IndexedDB) ==========
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: string;   // ISO 時間
+  updatedAt: string;
+  fileNames: string[];
+  recordCount: number;
+  productCount: number;
+}
+
+export interface AnalysisSession extends SessionSummary {
+  records: SalesRecord[];
+  result: AnalysisResult;
+}
+
+// ========== 追加資料 ==========
+
+export type MergeStrategy = 'REPLACE' | 'SKIP' | 'KEEP_BOTH';
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+export interface OverlapReport {
+  existingRange: DateRange | null;
+  incomingRange: DateRange | null;
+  overlapRange: DateRange | null;  // 新舊資料日期重疊區間
+  existingInOverlap: number;       // 舊資料落在重疊區間的筆數
+  incomingInOverlap: number;       // 新資料落在重疊區間的筆數
+  duplicateCount: number;          // 新資料中與舊資料完全相同的筆數
+}
+
+// ========== 庫存快照 ==========
+
+// 庫存檔的一列 (同一商品可有多個倉庫/門市)
+export interface StockLevel {
+  product: string;
+  onHand: number;      // 現有庫存
+  onOrder: number;     // 在途/已訂未到
+  location?: string;
+}
+
+export interface StockSnapshot {
+  fileName: string;
+  importedAt: string;  // ISO 時間
+  levels: StockLevel[];
+}
+
+export type StockoutRisk = 'OUT' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+// 庫存快照與銷售商品對應後的補貨建議
+export interface StockPosition {
+  productName: string;
+  category: string;
+  onHand: number;
+  onOrder: number;
+  locations: string[];
+  avgDailySales: number;
+  reorderPoint: number;
+  targetStock: number;         // 目標庫存 = 再訂購點 + 下月預測需求 (進位前)
+  netOrderQty: number;         // 目標庫存 − 現有 − 在途
+  daysOfCover: number | null;  // 現有庫存可銷售天數，無銷售時為 null
+  stockoutRisk: StockoutRisk;
+  noSales?: boolean;           // 有庫存但分析期間 (或所選門市) 沒有銷售，需求視為 0
+}
+
+// ========== 供應商 / 補貨參數 ==========
+
+// 依品牌 (供應商) 設定的補貨條件
+export interface SupplierSettings {
+  brand: string;
+  leadTimeDays: number;      // 前置天數
+  leadTimeStdDays: number;   // 前置天數標準差 (交期不穩定程度)
+  moq: number;               // 最小訂購量
+  packSize: number;          // 每箱入數，訂購量需為其倍數
+}
+
+export interface InventorySettings {
+  defaults: Omit<SupplierSettings, 'brand'>;   // 未設定的品牌使用預設值
+  suppliers: SupplierSettings[];
+  serviceLevels: Record<ABCClass, number>;     // 目標服務水準 (%)
+}
+
+// ========== 採購單 ==========
+
+export interface PurchaseOrderLine {
+  productName: string;
+  category: string;
+  qty: number;
+  suggestedQty: number;   // 系統建議量 (調整前)
+  unitCost: number;       // 取最近一筆 Cost，無成本資料時為 0
+  moq: number;
+  packSize: number;
+}
+
+export interface PurchaseOrder {
+  id: string;             // 採購單號
+  supplier: string;       // 品牌 / 供應商
+  createdAt: string;      // ISO 時間
+  lines: PurchaseOrderLine[];
+}
+
+// 採購單草稿 (由儀表板保存，切換分頁時保留使用者的調整)
+export interface PurchaseOrderDraft {
+  orders: PurchaseOrder[];
+  basis: string;       // 產生草稿時的建議量簽章，用來判斷建議是否已變動
+  isDirty: boolean;    // 使用者已調整數量或移除品項
+}
+
+// ========== 期間篩選與比較 ==========
+
+export type DatePreset = 'ALL' | 'LAST_30' | 'LAST_90' | 'THIS_QUARTER' | 'LAST_QUARTER' | 'YTD' | 'SAME_PERIOD_LAST_YEAR' | 'CUSTOM';
+
+export type ComparisonBaseline = 'PREVIOUS_PERIOD' | 'LAST_YEAR';
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  changePct: number | null; // 基期為 0 時無法計算
+}
+
+// 占比變化 (品牌占比、價格帶組成)，單位為百分點
+export interface ShareDelta {
+  key: string;
+  currentRevenue: number;
+  previousRevenue: number;
+  currentShare: number;
+  previousShare: number;
+  sharePts: number;
+}
+
+export interface AbcMembershipChange {
+  productName: string;
+  category: string;
+  previous: ABCClass | null; // null 表示該期間無銷售
+  current: ABCClass | null;
+}
+
+export interface PeriodComparison {
+  current: DateRange;
+  previous: DateRange;
+  revenue: MetricDelta;
+  quantity: MetricDelta;
+  brandShare: ShareDelta[];
+  priceBandMix: ShareDelta[];
+  abcChanges: AbcMembershipChange[];
+}
+
+// ========== ABC-XYZ 分級 ==========
+
+export type ClassificationBasis = 'REVENUE' | 'QUANTITY' | 'GROSS_PROFIT';
+
+export interface ClassificationSettings {
+  basis: ClassificationBasis;
+  abcCutoffs: { a: number; b: number };  // 累積占比 %，預設 80 / 95
+  xyzCutoffs: { x: number; y: number };  // CV 上限，預設 0.5 / 1.0
+  xyzGranularity: Granularity;           // 計算 CV 的期間
+}
+
+export interface AbcXyzCell {
+  abc: ABCClass;
+  xyz: XYZClass;
+  productCount: number;
+  revenue: number;
+  revenueShare: number;
+  topProducts: string[];
+}
+
+// ========== 價格帶 ==========
+
+// 類別 → 價格帶分界 (遞增；n 個分界切出 n+1 個價格帶)
+export type CategoryBandThresholds = Record<string, number[]>;
+
+export interface PriceBandSettings {
+  bandCount: number;                    // 自動分位數切分的價格帶數 (2-5)
+  custom: CategoryBandThresholds;       // 使用者自訂分界的類別，優先於自動切分
+}
+
+export interface PriceBandCell {
+  category: string;
+  band: string;
+  bandIndex: number;
+  lower: number | null;  // 第一個價格帶沒有下限
+  upper: number | null;  // 最後一個價格帶沒有上限
+  revenue: number;
+  qty: number;
+  share: number;         // 占該類別營收 %
+}
+
+// ========== 價格彈性與促銷成效 ==========
+
+export interface PricePoint {
+  period: string;            // 週 (週一日期)
+  price: number | null;      // 實際成交均價 = 金額 / 數量，當週無銷售為 null
+  qty: number;
+  revenue: number;
+  isDiscount: boolean;
+}
+
+export interface PromotionPeriod {
+  start: string;
+  end: string;
+  weeks: number;
+  avgPrice: number;
+  discountPct: number;       // 相對原價的折扣幅度 %
+  avgWeeklyQty: number;
+  baselineWeeklyQty: number; // 促銷前非折扣週的平均週銷量
+  upliftPct: number | null;  // 基準為 0 時無法計算
+}
+
+export interface PriceElasticity {
+  level: 'PRODUCT' | 'CATEGORY';
+  key: string;
+  category: string;
+  regularPrice: number;
+  elasticity: number | null; // ln(銷量) 對 ln(價格) 的迴歸斜率，觀測不足或價格無變動時為 null
+  observations: number;
+  discountWeeks: number;
+  avgDiscountPct: number | null;
+  avgUpliftPct: number | null;
+  promotions: PromotionPeriod[];
+  timeline: PricePoint[];    // 類別層級不提供
+}
+
+// ========== 購物籃分析 ==========
+
+// 交易重建方式：有訂單編號時依訂單，否則以同日期、同門市、同來源工作表視為一筆
+export type TransactionMode = 'ORDER_ID' | 'DATE_SOURCE';
+
+export interface AssociationRule {
+  level: 'PRODUCT' | 'CATEGORY';
+  antecedent: string;
+  consequent: string;
+  pairCount: number;   // 同時出現的交易數
+  support: number;     // 同時出現的交易占比 %
+  confidence: number;  // 買 antecedent 的交易中也買 consequent 的比例 %
+  lift: number;        // > 1 表示比隨機更常一起購買
+}
+
+export interface AttachItem {
+  product: string;
+  category: string;
+  pairCount: number;
+  attachRate: number;  // 主商品交易中帶上此商品的比例 %
+  lift: number;
+}
+
+export interface AttachRecommendation {
+  mainProduct: string;
+  category: string;
+  transactions: number;
+  accessories: AttachItem[];
+}
+
+export interface BasketAnalysis {
+  mode: TransactionMode;
+  transactionCount: number;
+  multiItemCount: number;   // 含 2 項以上商品的交易數
+  skippedLarge: number;     // 品項過多而不納入規則與搭售率計算的交易數
+  productRules: AssociationRule[];
+  categoryRules: AssociationRule[];
+  attachments: AttachRecommendation[];
+}
+
+// ========== 門市 / 通路 ==========
+
+export type SalesChannel = '門市' | '網購' | '電話';
+
+// 單一門市的營收、ABC 組成與品牌占比
+export interface StoreMetric {
+  store: string;
+  channels: SalesChannel[];
+  revenue: number;
+  quantity: number;
+  share: number;                          // 占全部門市營收 (%)
+  productCount: number;
+  transactionCount: number;
+  abcMix: Record<ABCClass, number>;       // 依整體 ABC 分級，各等級商品占該門市營收 (%)
+  brandShare: { brand: string; revenue: number; share: number }[]; // 依營收排序
+}
+
+// 單一門市的補貨建議
+export interface StoreInventory {
+  store: string;
+  metrics: InventoryMetrics[];
+  totalSuggestedQty: number;
+  totalSafetyStock: number;
+}
+
+// ========== 門市調撥 ==========
+
+export type TransferReason = 'SLOW_MOVING' | 'OVERSTOCK';
+
+// 調撥建議：由庫存過多/滯銷的門市移往快缺貨的門市
+export interface TransferSuggestion {
+  productName: string;
+  category: string;
+  fromStore: string;
+  toStore: string;
+  quantity: number;
+  reason: TransferReason;
+  fromOnHand: number;                // 調撥前現有庫存
+  toOnHand: number;
+  fromDaysOfCover: number | null;    // 調撥前可銷售天數，無銷售時為 null
+  toDaysOfCover: number | null;
+  toAvgDailySales: number;
+}
+
+// 調撥後仍不足、需要採購的量
+export interface RemainingNeed {
+  productName: string;
+  category: string;
+  store: string;
+  quantity: number;
+}
+
+export interface TransferPlan {
+  transfers: TransferSuggestion[];
+  remainingNeeds: RemainingNeed[];
+  purchaseQtyBefore: number;         // 不調撥時各門市缺口合計
+  purchaseQtyAfter: number;          // 調撥後的缺口合計
+  unknownLocations: string[];        // 快照中對應不到銷售門市的位置 (未納入調撥)
+  unlocatedLevels: number;           // 沒有位置欄位的庫存列數
+}
+
+// ========== 決策規則 ==========
+
+export type DecisionSource = 'RULES' | 'AI';
+
+// 本地決策引擎的門檻設定
+export interface DecisionRuleSettings {
+  useAI: boolean;              // 有 API 金鑰時由 AI 改寫理由、行動與摘要
+  slowMovingDays: number;      // 超過此天數未售視為滯銷
+  highVelocityScore: number;   // 日均銷量百分位 ≥ 此值為高週轉
+  lowVelocityScore: number;    // 日均銷量百分位 ≤ 此值為低週轉
+  lowMarginPct: number;        // 毛利率低於此值為低毛利 (需有成本資料)
+  highPricePercentile: number; // 單價在類別內的百分位 ≥ 此值為高單價
+}
+
 // --- Legacy Types for ForecastReport.tsx & TrendChart.tsx ---
 
 export interface RecommendationItem {
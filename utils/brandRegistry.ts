@@ -0,0 +1,109 @@
+import { BrandDefinition, SalesRecord, UnmatchedProduct } from '../types';
+
+const STORAGE_KEY = 'brandRegistry';
+
+export const OTHER_BRAND = 'Other 其他';
+
+/**
+ * 預設品牌字典 (順序即比對優先順序)
+ */
+export const DEFAULT_BRANDS: BrandDefinition[] = [
+  { name: 'Panasonic 國際', aliases: ['panasonic', '國際'], modelPrefixes: ['NR-', 'NA-', 'CS-', 'CU-', 'TH-'] },
+  { name: 'LG 樂金', aliases: ['lg', '樂金'], modelPrefixes: ['OLED'] },
+  { name: 'Samsung 三星', aliases: ['samsung', '三星'], modelPrefixes: [] },
+  { name: 'Sony', aliases: ['sony', '索尼'], modelPrefixes: ['XRM-', 'KM-'] },
+  { name: 'Hitachi 日立', aliases: ['hitachi', '日立'], modelPrefixes: ['RAS-', 'RAC-', 'RV-'] },
+  { name: 'Toshiba 東芝', aliases: ['toshiba', '東芝'], modelPrefixes: [] },
+  { name: 'Sharp 夏普', aliases: ['sharp', '夏普'], modelPrefixes: [] },
+  { name: 'TECO 東元', aliases: ['teco', '東元'], modelPrefixes: [] },
+  { name: 'SAMPO 聲寶', aliases: ['sampo', '聲寶'], modelPrefixes: [] },
+  { name: 'HERAN 禾聯', aliases: ['heran', '禾聯'], modelPrefixes: [] },
+  { name: 'Sanlux 三洋', aliases: ['sanlux', '三洋'], modelPrefixes: [] },
+  { name: 'Sakura 櫻花', aliases: ['sakura', '櫻花'], modelPrefixes: [] },
+  { name: 'Dyson', aliases: ['dyson'], modelPrefixes: [] },
+  { name: 'Philips', aliases: ['philips', '飛利浦'], modelPrefixes: [] },
+  { name: 'Tatung 大同', aliases: ['tatung', '大同'], modelPrefixes: [] },
+  { name: 'Whirlpool', aliases: ['whirlpool', '惠而浦'], modelPrefixes: [] },
+  { name: 'Daikin 大金', aliases: ['daikin', '大金'], modelPrefixes: ['FTXV', 'FTXM', 'FTHF', 'RXV', 'RHF'] },
+  { name: 'Kolin 歌林', aliases: ['kolin', '歌林'], modelPrefixes: [] },
+  { name: 'Mitsubishi 三菱', aliases: ['mitsubishi', '三菱'], modelPrefixes: ['MSZ-', 'MUZ-', 'MSY-'] },
+  { name: 'Electrolux 伊萊克斯', aliases: ['electrolux', '伊萊克斯'], modelPrefixes: [] },
+  { name: 'Zojirushi 象印', aliases: ['zojirushi', '象印'], modelPrefixes: [] },
+  { name: 'Tiger 虎牌', aliases: ['tiger', '虎牌'], modelPrefixes: [] },
+  { name: 'Balmuda', aliases: ['balmuda', '百慕達'], modelPrefixes: [] },
+  { name: 'iRobot', aliases: ['irobot', 'roomba'], modelPrefixes: [] },
+  { name: 'Xiaomi 小米', aliases: ['xiaomi', '小米'], modelPrefixes: [] }
+];
+
+/**
+ * Detect brand from product name
+ * 先比對別名，再比對型號前綴 (以空白切分後的字首)
+ */
+export const detectBrand = (productName: string, registry: BrandDefinition[]): string => {
+  const normalized = productName.toLowerCase();
+
+  const byAlias = registry.find(b => b.aliases.some(a => a && normalized.includes(a.toLowerCase())));
+  if (byAlias) return byAlias.name;
+
+  const tokens = productName.toUpperCase().split(/[\s/()（）]+/).filter(Boolean);
+  const byPrefix = registry.find(b =>
+    b.modelPrefixes.some(p => p && tokens.some(t => t.startsWith(p.toUpperCase())))
+  );
+  if (byPrefix) return byPrefix.name;
+
+  return OTHER_BRAND;
+};
+
+/**
+ * 字典變更後重新歸類已載入的紀錄
+ * 合併後的標準名稱無法辨識時，改用原始名稱判斷
+ */
+export const reclassifyBrands = (records: SalesRecord[], registry: BrandDefinition[]): SalesRecord[] =>
+  records.map(r => {
+    let brand = detectBrand(r.Product, registry);
+    if (brand === OTHER_BRAND && r.RawProduct) brand = detectBrand(r.RawProduct, registry);
+    return brand === r.Brand ? r : { ...r, Brand: brand };
+  });
+
+/**
+ * 列出歸入「其他」的商品 (依營收排序)
+ */
+export const findUnmatchedProducts = (records: SalesRecord[]): UnmatchedProduct[] => {
+  const map = new Map<string, UnmatchedProduct>();
+  records.forEach(r => {
+    if (r.Brand !== OTHER_BRAND) return;
+    if (!map.has(r.Product)) map.set(r.Product, { productName: r.Product, qty: 0, revenue: 0 });
+    const p = map.get(r.Product)!;
+    p.qty += r.Quantity;
+    p.revenue += r.Amount;
+  });
+  return Array.from(map.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+// ========== 字典保存 (localStorage) ==========
+
+export const loadBrandRegistry = (): BrandDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (err) {
+    console.error('無法讀取品牌字典:', err);
+  }
+  return DEFAULT_BRANDS;
+};
+
+export const saveBrandRegistry = (registry: BrandDefinition[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+  } catch (err) {
+    console.error('無法儲存品牌字典:', err);
+  }
+};
+
+export const resetBrandRegistry = (): BrandDefinition[] => {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_BRANDS;
+};
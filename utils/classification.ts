@@ -0,0 +1,117 @@
+import {
+  ABCClass, AbcXyzCell, ClassificationBasis, ClassificationSettings, ProductPerformance, XYZClass
+} from '../types';
+
+const STORAGE_KEY = 'classificationSettings';
+
+export const DEFAULT_CLASSIFICATION_SETTINGS: ClassificationSettings = {
+  basis: 'REVENUE',
+  abcCutoffs: { a: 80, b: 95 },
+  xyzCutoffs: { x: 0.5, y: 1.0 },
+  xyzGranularity: 'month'
+};
+
+export const BASIS_LABELS: Record<ClassificationBasis, string> = {
+  REVENUE: '營收',
+  QUANTITY: '銷量',
+  GROSS_PROFIT: '毛利'
+};
+
+// 各格的建議策略 (ABC 決定重要性，XYZ 決定可預測性)
+export const ABC_XYZ_STRATEGIES: Record<string, string> = {
+  AX: '自動補貨，低安全庫存',
+  AY: '定期檢視，適度安全庫存',
+  AZ: '人工監控，提高安全庫存',
+  BX: '自動補貨',
+  BY: '定期補貨，依季節調整',
+  BZ: '依訂單或預購進貨',
+  CX: '大批量低頻補貨',
+  CY: '降低庫存水位',
+  CZ: '考慮淘汰或接單生產'
+};
+
+export const cellCode = (abc: ABCClass, xyz: XYZClass) => `${abc.charAt(0)}${xyz.charAt(0)}`;
+
+/**
+ * 累積占比 → ABC 等級
+ */
+export const classifyABC = (cumulativeShare: number, settings: ClassificationSettings): ABCClass => {
+  if (cumulativeShare <= settings.abcCutoffs.a) return ABCClass.A;
+  if (cumulativeShare <= settings.abcCutoffs.b) return ABCClass.B;
+  return ABCClass.C;
+};
+
+/**
+ * 變異係數 → XYZ 等級
+ * 期數不足 (CV 為 null) 無法判斷穩定度，保守視為 Z
+ */
+export const classifyXYZ = (cv: number | null, settings: ClassificationSettings): XYZClass => {
+  if (cv === null) return XYZClass.Z;
+  if (cv <= settings.xyzCutoffs.x) return XYZClass.X;
+  if (cv <= settings.xyzCutoffs.y) return XYZClass.Y;
+  return XYZClass.Z;
+};
+
+/**
+ * 變異係數 = 標準差 / 平均 (至少 2 期且平均大於 0)
+ */
+export const coefficientOfVariation = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  if (avg <= 0) return null;
+  const variance = values.reduce((a, v) => a + (v - avg) ** 2, 0) / values.length;
+  return Math.round((Math.sqrt(variance) / avg) * 100) / 100;
+};
+
+/**
+ * 彙總 ABC-XYZ 九宮格 (依 A→C、X→Z 排列)
+ */
+export const buildAbcXyzMatrix = (performance: ProductPerformance[]): AbcXyzCell[] => {
+  const totalRevenue = performance.reduce((a, p) => a + p.totalAmount, 0);
+  const cells: AbcXyzCell[] = [];
+  [ABCClass.A, ABCClass.B, ABCClass.C].forEach(abc => {
+    [XYZClass.X, XYZClass.Y, XYZClass.Z].forEach(xyz => {
+      const items = performance
+        .filter(p => p.abcClass === abc && p.xyzClass === xyz)
+        .sort((a, b) => b.totalAmount - a.totalAmount);
+      const revenue = items.reduce((a, p) => a + p.totalAmount, 0);
+      cells.push({
+        abc,
+        xyz,
+        productCount: items.length,
+        revenue,
+        revenueShare: totalRevenue > 0 ? Math.round((revenue / totalRevenue) * 1000) / 10 : 0,
+        topProducts: items.slice(0, 3).map(p => p.productName)
+      });
+    });
+  });
+  return cells;
+};
+
+// ========== 設定保存 (localStorage) ==========
+
+export const loadClassificationSettings = (): ClassificationSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      return {
+        basis: saved.basis || DEFAULT_CLASSIFICATION_SETTINGS.basis,
+        abcCutoffs: { ...DEFAULT_CLASSIFICATION_SETTINGS.abcCutoffs, ...saved.abcCutoffs },
+        xyzCutoffs: { ...DEFAULT_CLASSIFICATION_SETTINGS.xyzCutoffs, ...saved.xyzCutoffs },
+        xyzGranularity: saved.xyzGranularity || DEFAULT_CLASSIFICATION_SETTINGS.xyzGranularity
+      };
+    }
+  } catch (err) {
+    console.error('無法讀取分級設定:', err);
+  }
+  return DEFAULT_CLASSIFICATION_SETTINGS;
+};
+
+export const saveClassificationSettings = (settings: ClassificationSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('無法儲存分級設定:', err);
+  }
+};
@@ -0,0 +1,230 @@
+import { ColumnMapping, FieldDetection, MappedField, SalesChannel } from '../types';
+
+const STORAGE_KEY = 'columnMappings';
+
+export interface FieldSpec {
+  field: MappedField;
+  label: string;
+  required: boolean;
+  patterns: string[];   // 依優先順序排列，越前面越可信
+  excludes: string[];   // 含有這些字的欄位不列入候選
+}
+
+/**
+ * 標準欄位定義
+ * - 「name」不可吃到 客戶名稱/門市名稱，「price」(單價) 優先度低於「amount」(總額)
+ */
+export const FIELD_SPECS: FieldSpec[] = [
+  {
+    field: 'Date', label: '日期', required: true,
+    patterns: ['日期', 'date', '銷售日', '交易日', '時間', 'month', 'day'],
+    excludes: ['到期', '保固', 'expire']
+  },
+  {
+    field: 'Category', label: '類別', required: false,
+    patterns: ['品類', '類別', 'category', 'cat', '部門', '類型'],
+    excludes: ['客戶', '會員']
+  },
+  {
+    field: 'Product', label: '商品', required: true,
+    patterns: ['品名', '商品名稱', '商品', 'product', '型號', 'model', '名稱', 'name'],
+    excludes: ['客戶', '顧客', '會員', '門市', '分店', '店名', '業務', '員', '供應商', '廠商', '類', 'customer', 'store', 'staff', 'vendor', 'category']
+  },
+  {
+    field: 'Quantity', label: '數量', required: true,
+    patterns: ['數量', '銷量', 'qty', 'quantity', 'sales_qty', 'count'],
+    excludes: ['金額', 'amount', 'discount', 'account']
+  },
+  {
+    field: 'Amount', label: '金額', required: true,
+    patterns: ['銷售金額', '金額', '總價', '營業額', 'amount', 'revenue', 'sales_amt', '售價', 'price'],
+    excludes: ['成本', '進價', 'cost', '折扣', 'discount']
+  },
+  {
+    field: 'Cost', label: '成本', required: false,
+    patterns: ['成本', '進價', 'cost'],
+    excludes: []
+  },
+  {
+    field: 'OrderId', label: '訂單編號', required: false,
+    patterns: ['訂單編號', '訂單號碼', '單號', '發票號碼', '交易序號', 'order_id', 'order no', 'invoice', 'receipt', '訂單', 'order'],
+    // 訂單狀態、訂單來源、Order Type 等屬性欄位不是編號，誤用會讓大量紀錄共用少數「訂單」
+    excludes: [
+      '日期', '時間', '金額', '數量', '狀態', '來源', '類', '方式', '通路', '備註',
+      'date', 'amount', 'qty', 'status', 'source', 'type', 'method', 'channel', 'note'
+    ]
+  },
+  {
+    field: 'Store', label: '門市', required: false,
+    patterns: ['門市', '分店', '店名', '店別', '店鋪', 'store', 'branch', 'shop'],
+    excludes: ['通路', '員', '電話', '地址', 'channel', 'staff', 'address']
+  },
+  {
+    field: 'Channel', label: '通路', required: false,
+    patterns: ['銷售通路', '通路', '銷售管道', 'channel'],
+    excludes: []
+  }
+];
+
+export const SALES_CHANNELS: SalesChannel[] = ['門市', '網購', '電話'];
+
+const CHANNEL_KEYWORDS: { channel: SalesChannel; keywords: string[] }[] = [
+  { channel: '網購', keywords: ['網購', '網路', '線上', '電商', '官網', '商城', 'online', 'web', 'momo', 'pchome', 'shopee', '蝦皮'] },
+  { channel: '電話', keywords: ['電話', '電訪', '來電', 'phone', 'tel', 'call'] },
+  { channel: '門市', keywords: ['門市', '店', '實體', 'store', 'shop', 'pos'] }
+];
+
+/**
+ * 通路欄位值統一為 門市/網購/電話；無法辨識的值歸入門市
+ */
+export const normalizeChannel = (val: any): SalesChannel | undefined => {
+  const text = val == null ? '' : String(val).trim().toLowerCase();
+  if (!text) return undefined;
+  return CHANNEL_KEYWORDS.find(c => c.keywords.some(k => text.includes(k)))?.channel ?? '門市';
+};
+
+/**
+ * 取得資料列的欄位名稱 (sheet_to_json 會略過空白儲存格，故取所有列的聯集)
+ */
+export const extractHeaders = (rows: any[]): string[] => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+  return headers;
+};
+
+/**
+ * 欄位簽章：同一種匯出格式的欄位組合相同
+ */
+export const getHeaderSignature = (headers: string[]): string =>
+  [...headers].map(h => h.trim()).sort().join('|');
+
+const scoreColumn = (spec: FieldSpec, header: string): number => {
+  const h = header.trim().toLowerCase();
+  if (spec.excludes.some(e => h.includes(e.toLowerCase()))) return 0;
+
+  let best = 0;
+  spec.patterns.forEach((p, idx) => {
+    const pattern = p.toLowerCase();
+    const base = (spec.patterns.length - idx) * 10;
+    if (h === pattern) best = Math.max(best, base + 5); // 完全相符加分
+    else if (h.includes(pattern)) best = Math.max(best, base);
+  });
+  return best;
+};
+
+/**
+ * 自動偵測欄位對應
+ * 依分數由高到低指派，每個原始欄位只會被指派一次
+ */
+export const detectColumnMapping = (headers: string[]): FieldDetection[] => {
+  const scored = FIELD_SPECS.map(spec => ({
+    spec,
+    scores: headers
+      .map(header => ({ header, score: scoreColumn(spec, header) }))
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score)
+  }));
+
+  const pairs = scored
+    .flatMap(s => s.scores.map(c => ({ field: s.spec.field, header: c.header, score: c.score })))
+    .sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<MappedField, string>();
+  const usedColumns = new Set<string>();
+  pairs.forEach(p => {
+    if (assigned.has(p.field) || usedColumns.has(p.header)) return;
+    assigned.set(p.field, p.header);
+    usedColumns.add(p.header);
+  });
+
+  return scored.map(({ spec, scores }) => ({
+    field: spec.field,
+    column: assigned.get(spec.field) ?? null,
+    candidates: scores.map(s => s.header),
+    ambiguous: scores.length > 1
+  }));
+};
+
+export const detectionToMapping = (detections: FieldDetection[]): ColumnMapping => {
+  const mapping = emptyMapping();
+  detections.forEach(d => { mapping[d.field] = d.column; });
+  return mapping;
+};
+
+export const emptyMapping = (): ColumnMapping => ({
+  Date: null, Category: null, Product: null, Quantity: null, Amount: null, Cost: null, OrderId: null,
+  Store: null, Channel: null
+});
+
+/**
+ * 檢查對應結果：缺少必填欄位、或同一欄位被重複使用
+ */
+export const validateMapping = (mapping: ColumnMapping): string[] => {
+  const problems: string[] = [];
+  FIELD_SPECS.forEach(spec => {
+    if (spec.required && !mapping[spec.field]) {
+      problems.push(`缺少必要欄位：${spec.label}`);
+    }
+  });
+
+  const used = new Map<string, string[]>();
+  FIELD_SPECS.forEach(spec => {
+    const col = mapping[spec.field];
+    if (!col) return;
+    used.set(col, [...(used.get(col) || []), spec.label]);
+  });
+  used.forEach((labels, col) => {
+    if (labels.length > 1) problems.push(`欄位「${col}」同時對應到 ${labels.join('、')}`);
+  });
+
+  return problems;
+};
+
+// ========== 對應記憶 (localStorage) ==========
+
+const readStore = (): Record<string, ColumnMapping> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 讀取記住的對應；舊版儲存時尚未有的欄位 (如訂單編號、門市、通路) 以自動偵測補上
+ * 已儲存為 null 的欄位代表使用者選擇不對應，維持不變
+ */
+export const loadSavedMapping = (signature: string, headers: string[]): ColumnMapping | null => {
+  const saved = readStore()[signature];
+  if (!saved) return null;
+
+  const mapping = { ...emptyMapping(), ...saved };
+  const used = new Set(Object.values(saved).filter(Boolean));
+  detectColumnMapping(headers).forEach(d => {
+    if (d.field in saved || !d.column || used.has(d.column)) return;
+    mapping[d.field] = d.column;
+    used.add(d.column);
+  });
+  return mapping;
+};
+
+export const hasSavedMappings = (): boolean => Object.keys(readStore()).length > 0;
+
+export const saveMapping = (signature: string, mapping: ColumnMapping): void => {
+  const store = readStore();
+  store[signature] = mapping;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.error('無法儲存欄位對應:', err);
+  }
+};
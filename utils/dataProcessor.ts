@@ -1,72 +1,81 @@
 
 import {
   SalesRecord, ProductPerformance, SeasonalityData, PriceBandMetric,
-  ABCClass, BrandMetric, DailyTrendMetric,
-  InventoryMetrics, ForecastResult, YoYComparison, ProfitAnalysis, SlowMovingAlert
+  ABCClass, XYZClass, LifecycleStage, BrandMetric, DailyTrendMetric, ClassificationSettings, CategoryBandThresholds,
+  InventoryMetrics, InventorySettings, ForecastResult, DemandForecast, YoYComparison, ProfitAnalysis, SlowMovingAlert,
+  ColumnMapping, MappedField, NormalizationResult, DataQualityIssue, DataIssueType
 } from '../types';
+import { detectColumnMapping, detectionToMapping, extractHeaders, normalizeChannel } from './columnMapping';
+import { parseNumber } from './dataQuality';
+import { detectBrand, loadBrandRegistry } from './brandRegistry';
+import { forecastMonthly } from './forecasting';
+import { buildTimeSeries, getCalendarRange, seriesStats } from './timeSeries';
+import { DEFAULT_INVENTORY_SETTINGS, getSupplierSettings, roundToPack, zForServiceLevel } from './supplierSettings';
+import { DEFAULT_CLASSIFICATION_SETTINGS, classifyABC, classifyXYZ, coefficientOfVariation } from './classification';
+import { TIER_ORDER, analyzeCategoryPriceBands, resolveCategoryBands } from './priceBands';
+import { classifyLifecycle } from './lifecycle';
 
 /**
- * Helper to detect brand from product name
+ * Helper to check if a record is a return (negative quantity/amount)
  */
-const detectBrand = (productName: string): string => {
-  const normalized = productName.toLowerCase();
-
-  if (normalized.includes('panasonic') || normalized.includes('國際')) return 'Panasonic 國際';
-  if (normalized.includes('lg')) return 'LG 樂金';
-  if (normalized.includes('samsung') || normalized.includes('三星')) return 'Samsung 三星';
-  if (normalized.includes('sony') || normalized.includes('索尼')) return 'Sony';
-  if (normalized.includes('hitachi') || normalized.includes('日立')) return 'Hitachi 日立';
-  if (normalized.includes('toshiba') || normalized.includes('東芝')) return 'Toshiba 東芝';
-  if (normalized.includes('sharp') || normalized.includes('夏普')) return 'Sharp 夏普';
-  if (normalized.includes('teco') || normalized.includes('東元')) return 'TECO 東元';
-  if (normalized.includes('sampo') || normalized.includes('聲寶')) return 'SAMPO 聲寶';
-  if (normalized.includes('heran') || normalized.includes('禾聯')) return 'HERAN 禾聯';
-  if (normalized.includes('sanlux') || normalized.includes('三洋')) return 'Sanlux 三洋';
-  if (normalized.includes('sakura') || normalized.includes('櫻花')) return 'Sakura 櫻花';
-  if (normalized.includes('dyson')) return 'Dyson';
-  if (normalized.includes('philips') || normalized.includes('飛利浦')) return 'Philips';
-  if (normalized.includes('tatung') || normalized.includes('大同')) return 'Tatung 大同';
-  if (normalized.includes('whirlpool') || normalized.includes('惠而浦')) return 'Whirlpool';
-  if (normalized.includes('daikin') || normalized.includes('大金')) return 'Daikin 大金';
-
-  return 'Other 其他';
-};
-
-/**
- * Helper to detect if a product is a gift item
- */
-const detectGift = (productName: string, amount: number): boolean => {
-  // 金額為 0 視為贈品
-  if (amount === 0) return true;
-
-  // 名稱包含贈品相關關鍵字
-  const giftKeywords = ['贈', '贈品', '禮', '附贈', '加贈', '送', '免費'];
-  const normalized = productName.toLowerCase();
-  return giftKeywords.some(keyword => normalized.includes(keyword));
-};
+export const isReturnRecord = (row: SalesRecord): boolean =>
+  row.recordType === 'RETURN' || row.Quantity < 0;
 
 /**
- * Heuristic to map dynamic column names to our standard SalesRecord format
+ * Map dynamic column names to our standard SalesRecord format
+ * 若未提供 mapping，則以欄位名稱自動偵測 (見 utils/columnMapping.ts)
+ * source 用於標記每筆紀錄的來源檔案與工作表
+ * 同時回傳資料品質報告 (排除列、日期/數值錯誤、預設值)；跨列檢查見 buildDataQualityReport
+ * 贈品需比對同一交易的其他商品，於合併後另行判斷 (見 utils/giftRules.ts)
  */
-export const normalizeData = (rawData: any[]): SalesRecord[] => {
-  return rawData.map(row => {
-    const keys = Object.keys(row);
-    const getVal = (patterns: string[]) => {
-      const key = keys.find(k => patterns.some(p => k.toLowerCase().includes(p.toLowerCase())));
-      return key ? row[key] : null;
+export const normalizeData = (
+  rawData: any[],
+  mapping?: ColumnMapping,
+  source?: { fileName: string; sheetName: string }
+): NormalizationResult => {
+  const columns = mapping ?? detectionToMapping(detectColumnMapping(extractHeaders(rawData)));
+  const brandRegistry = loadBrandRegistry();
+  const records: SalesRecord[] = [];
+  const issues: DataQualityIssue[] = [];
+
+  rawData.forEach((row, index) => {
+    // sheet_to_json 會略過空白列，標題也不一定在第 1 列，故以其記錄的 __rowNum__ (0 起算) 為準
+    const rowNumber = typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 2;
+    const location = { sourceFile: source?.fileName, sourceSheet: source?.sheetName, rowNumber };
+
+    const getVal = (field: MappedField) => {
+      const key = columns[field];
+      return key ? row[key] ?? null : null;
     };
 
-    const dateVal = getVal(['date', '日期', '時間', 'month', 'day']);
-    const catVal = getVal(['category', 'cat', '類別', '品類', '部門', '類型']); // Added '類型' to allow detection if needed, though usually '銷售'
-    const prodVal = getVal(['product', 'name', 'model', '商品', '型號', '名稱', '品名']);
-    const qtyVal = getVal(['qty', 'quantity', 'count', '數量', '銷量', 'sales_qty']);
-    const amtVal = getVal(['amount', 'price', 'revenue', '金額', '售價', '總價', 'sales_amt', '營業額']);
-    const costVal = getVal(['cost', '成本', '進價']);
+    const dateVal = getVal('Date');
+    const catVal = getVal('Category');
+    const prodVal = getVal('Product');
+    const qtyVal = getVal('Quantity');
+    const amtVal = getVal('Amount');
+    const costVal = getVal('Cost');
+    const orderVal = getVal('OrderId');
+    const storeVal = getVal('Store');
+    const channelVal = getVal('Channel');
+    const productName = String(prodVal || '未知商品');
+
+    const warn = (type: DataIssueType, field: string, value: any, message: string) => {
+      issues.push({
+        type, severity: 'WARNING', ...location, field, product: productName,
+        value: value == null ? undefined : String(value), message
+      });
+    };
 
     // Simple cleaning
-    const qty = Number(qtyVal) || 0;
-    const amount = Number(amtVal) || 0;
-    const productName = String(prodVal || '未知商品');
+    const qtyParsed = parseNumber(qtyVal);
+    const amtParsed = parseNumber(amtVal);
+    const costParsed = parseNumber(costVal);
+    if (!qtyParsed.valid) warn('NON_NUMERIC', 'Quantity', qtyVal, `數量「${qtyVal}」不是數字，視為 0`);
+    if (!amtParsed.valid) warn('NON_NUMERIC', 'Amount', amtVal, `金額「${amtVal}」不是數字，視為 0`);
+    if (!costParsed.valid) warn('NON_NUMERIC', 'Cost', costVal, `成本「${costVal}」不是數字，已忽略`);
+
+    const qty = qtyParsed.value;
+    const amount = amtParsed.value;
 
     // Date normalization
     let dateStr = 'Unknown';
@@ -81,28 +90,74 @@ export const normalizeData = (rawData: any[]): SalesRecord[] => {
           dateStr = d.toISOString().slice(0, 10);
         } else {
           dateStr = String(dateVal);
+          warn('INVALID_DATE', 'Date', dateVal, `日期「${dateVal}」無法解析`);
         }
       }
     }
 
-    return {
+    // 數量與金額皆為 0 的列沒有意義
+    if (qty === 0 && amount === 0) {
+      issues.push({
+        type: 'REJECTED',
+        severity: 'ERROR',
+        ...location,
+        product: productName,
+        message: '數量與金額皆為 0，已排除'
+      });
+      return;
+    }
+
+    // 負數量視為退貨，金額統一為負數以便與銷售相抵
+    // 數量不為負但金額為負的是折扣、折價券或價格調整：只沖減金額，不影響銷量與退貨數
+    const isReturn = qty < 0;
+    const isAdjustment = !isReturn && amount < 0;
+    if (isAdjustment) warn('ADJUSTMENT', 'Amount', amtVal, `金額為負但數量為 ${qty}，視為折扣/價格調整，不計入退貨`);
+
+    if (!dateVal) warn('DEFAULT_VALUE', 'Date', null, '缺少日期，標記為 Unknown');
+    if (!catVal) warn('DEFAULT_VALUE', 'Category', null, '缺少類別，歸入「未分類」');
+    if (!prodVal) warn('DEFAULT_VALUE', 'Product', null, '缺少商品名稱，歸入「未知商品」');
+
+    records.push({
       Date: dateStr,
       Category: String(catVal || '未分類'),
       Product: productName,
       Quantity: qty,
-      Amount: amount,
-      Cost: costVal ? Number(costVal) : undefined,
-      Brand: detectBrand(productName),
-      isGift: detectGift(productName, amount)
-    };
-  }).filter(r => r.Quantity > 0 || r.Amount > 0); // Keep only positive sales for now
+      Amount: isReturn ? -Math.abs(amount) : amount,
+      Cost: costVal && costParsed.valid ? costParsed.value : undefined,
+      Brand: detectBrand(productName, brandRegistry),
+      OrderId: orderVal != null && String(orderVal).trim() ? String(orderVal).trim() : undefined,
+      Store: storeVal != null && String(storeVal).trim() ? String(storeVal).trim() : undefined,
+      Channel: normalizeChannel(channelVal),
+      recordType: isReturn ? 'RETURN' : isAdjustment ? 'ADJUSTMENT' : 'SALE',
+      SourceFile: source?.fileName,
+      SourceSheet: source?.sheetName,
+      SourceRow: rowNumber
+    });
+  });
+
+  return {
+    records,
+    report: {
+      totalRows: rawData.length,
+      acceptedRows: records.length,
+      rejectedRows: rawData.length - records.length,
+      issues
+    }
+  };
 };
 
 /**
- * 1. Sales Contribution Analysis (ABC Analysis)
+ * 1. Sales Contribution Analysis (ABC-XYZ Analysis)
+ * - ABC：依 settings.basis (營收/銷量/毛利) 排序的累積占比分級
+ * - XYZ：依 settings.xyzGranularity 期間銷量的變異係數分級
+ * - 生命週期：依日序列判斷 (見 lifecycle.ts)
  */
-export const analyzePerformance = (data: SalesRecord[]): ProductPerformance[] => {
+export const analyzePerformance = (
+  data: SalesRecord[],
+  settings: ClassificationSettings = DEFAULT_CLASSIFICATION_SETTINGS
+): ProductPerformance[] => {
   const grouped = new Map<string, ProductPerformance>();
+  const costByProduct = new Map<string, number>();
   let totalSystemAmount = 0;
 
   // 1. Aggregation
@@ -115,45 +170,95 @@ export const analyzePerformance = (data: SalesRecord[]): ProductPerformance[] =>
         totalQty: 0,
         totalAmount: 0,
         averagePrice: 0,
+        grossQty: 0,
+        returnQty: 0,
+        returnRate: 0,
         qtyShare: 0,
         amountShare: 0,
         cumulativeShare: 0,
         abcClass: ABCClass.C,
+        xyzClass: XYZClass.Z,
+        demandCV: null,
         salesFrequency: 0,
-        velocityScore: 0
+        velocityScore: 0,
+        lifecycle: LifecycleStage.MATURE
       });
     }
     const item = grouped.get(row.Product)!;
+    // 退貨列為負數，直接相加即為淨額
     item.totalQty += row.Quantity;
     item.totalAmount += row.Amount;
-    // Simple frequency counter (row count as proxy for frequency in transaction data)
-    item.salesFrequency += 1;
+    if (isReturnRecord(row)) {
+      item.returnQty += Math.abs(row.Quantity);
+    } else {
+      item.grossQty += row.Quantity;
+    }
+    if (row.Cost !== undefined && row.Cost > 0) {
+      costByProduct.set(row.Product, (costByProduct.get(row.Product) || 0) + row.Cost * row.Quantity);
+    }
   });
 
+  // 動銷指標：以連續日曆序列計算 (見 timeSeries.ts)
+  // salesFrequency = 有銷售的天數；velocityScore = 日均銷量在所有商品中的百分位 (0-100)
+  const dataStart = getCalendarRange(data)?.start ?? '';
+  const dailyStats = new Map(buildTimeSeries(data, r => r.Product, 'day').map(s => [
+    s.key,
+    { sellingDays: s.values.filter(v => v > 0).length, avgDaily: seriesStats(s.values).mean, lifecycle: classifyLifecycle(s, dataStart) }
+  ]));
+  const sortedVelocity = Array.from(dailyStats.values()).map(d => d.avgDaily).sort((a, b) => a - b);
+  const velocityPercentile = (avgDaily: number) => {
+    if (sortedVelocity.length <= 1) return 100;
+    const rank = sortedVelocity.filter(v => v < avgDaily).length;
+    return Math.round((rank / (sortedVelocity.length - 1)) * 100);
+  };
+
+  // 需求變異：同樣使用補 0 的連續期間序列
+  const demandCV = new Map(buildTimeSeries(data, r => r.Product, settings.xyzGranularity).map(s => [
+    s.key,
+    coefficientOfVariation(s.values)
+  ]));
+  const hasCost = costByProduct.size > 0;
+  // 沒有成本資料的商品毛利未知 (不能視為 100% 毛利)；毛利基準排名時以有成本商品的整體毛利率估算
+  const costedRevenue = Array.from(grouped.values())
+    .filter(item => costByProduct.has(item.productName))
+    .reduce((a, item) => a + item.totalAmount, 0);
+  const costedCost = Array.from(costByProduct.values()).reduce((a, v) => a + v, 0);
+  const averageMargin = costedRevenue > 0 ? (costedRevenue - costedCost) / costedRevenue : 0;
+
   // 2. Metrics Calculation
-  const result = Array.from(grouped.values()).map(item => ({
-    ...item,
-    amountShare: totalSystemAmount > 0 ? (item.totalAmount / totalSystemAmount) * 100 : 0,
-    averagePrice: item.totalQty > 0 ? Math.round(item.totalAmount / item.totalQty) : 0,
-    velocityScore: Math.min(100, item.totalQty * 1.5 + item.salesFrequency * 0.5) // Simple heuristic
-  }));
+  const result = Array.from(grouped.values()).map(item => {
+    const daily = dailyStats.get(item.productName);
+    const cv = demandCV.get(item.productName) ?? null;
+    return {
+      ...item,
+      amountShare: totalSystemAmount > 0 ? (item.totalAmount / totalSystemAmount) * 100 : 0,
+      averagePrice: item.totalQty > 0 ? Math.round(item.totalAmount / item.totalQty) : 0,
+      returnRate: item.grossQty > 0 ? Math.round((item.returnQty / item.grossQty) * 1000) / 10 : 0,
+      salesFrequency: daily?.sellingDays || 0,
+      velocityScore: daily ? velocityPercentile(daily.avgDaily) : 0,
+      lifecycle: daily?.lifecycle.stage ?? LifecycleStage.MATURE,
+      lifecycleSignals: daily?.lifecycle.signals,
+      demandCV: cv,
+      xyzClass: classifyXYZ(cv, settings),
+      grossProfit: costByProduct.has(item.productName) ? item.totalAmount - costByProduct.get(item.productName)! : undefined
+    };
+  });
 
-  // 3. Sort for ABC Analysis (by Revenue)
-  result.sort((a, b) => b.totalAmount - a.totalAmount);
+  // 3. Sort for ABC Analysis (無成本資料時，毛利基準退回營收)
+  const basisValue = (item: ProductPerformance): number => {
+    if (settings.basis === 'QUANTITY') return item.totalQty;
+    if (settings.basis === 'GROSS_PROFIT' && hasCost) return item.grossProfit ?? item.totalAmount * averageMargin;
+    return item.totalAmount;
+  };
+  const basisTotal = result.reduce((a, item) => a + basisValue(item), 0);
+  result.sort((a, b) => basisValue(b) - basisValue(a));
 
   // 4. Assign ABC Class
   let currentCumulative = 0;
   result.forEach(item => {
-    currentCumulative += item.amountShare;
+    currentCumulative += basisTotal > 0 ? (basisValue(item) / basisTotal) * 100 : 0;
     item.cumulativeShare = currentCumulative;
-
-    if (currentCumulative <= 80) {
-      item.abcClass = ABCClass.A;
-    } else if (currentCumulative <= 95) {
-      item.abcClass = ABCClass.B;
-    } else {
-      item.abcClass = ABCClass.C;
-    }
+    item.abcClass = classifyABC(currentCumulative, settings);
   });
 
   return result;
@@ -163,18 +268,19 @@ export const analyzePerformance = (data: SalesRecord[]): ProductPerformance[] =>
  * 2. Seasonality Analysis
  */
 export const analyzeSeasonality = (data: SalesRecord[]): SeasonalityData[] => {
-  const grouped = new Map<string, { totalQty: number; totalRev: number; categories: Record<string, number> }>();
+  const grouped = new Map<string, { totalQty: number; totalRev: number; returnQty: number; categories: Record<string, number> }>();
 
   data.forEach(row => {
     // Extract YYYY-MM
     const month = row.Date.length >= 7 ? row.Date.substring(0, 7) : row.Date;
 
     if (!grouped.has(month)) {
-      grouped.set(month, { totalQty: 0, totalRev: 0, categories: {} });
+      grouped.set(month, { totalQty: 0, totalRev: 0, returnQty: 0, categories: {} });
     }
     const entry = grouped.get(month)!;
     entry.totalQty += row.Quantity;
     entry.totalRev += row.Amount;
+    if (isReturnRecord(row)) entry.returnQty += Math.abs(row.Quantity);
     entry.categories[row.Category] = (entry.categories[row.Category] || 0) + row.Quantity;
   });
 
@@ -185,6 +291,7 @@ export const analyzeSeasonality = (data: SalesRecord[]): SeasonalityData[] => {
         month,
         sales: data.totalQty,
         revenue: data.totalRev,
+        returnQty: data.returnQty,
         topCategory: topCat ? topCat[0] : 'None'
       };
     })
@@ -193,43 +300,39 @@ export const analyzeSeasonality = (data: SalesRecord[]): SeasonalityData[] => {
 
 /**
  * 3. Price Band Analysis
+ * 價格帶依類別各自切分 (見 priceBands.ts)，再以級距名稱跨類別彙總
+ * bands 未提供時依傳入資料自動切分；篩選子集時應傳入以完整資料算出的分界，避免級距隨篩選漂移
  */
-export const analyzePriceBands = (data: SalesRecord[]): PriceBandMetric[] => {
-  const bands = new Map<string, { count: number; revenue: number }>();
+export const analyzePriceBands = (
+  data: SalesRecord[],
+  bands: CategoryBandThresholds = resolveCategoryBands(data)
+): PriceBandMetric[] => {
+  const tiers = new Map<string, { count: number; revenue: number }>();
   let totalRev = 0;
 
-  data.forEach(row => {
-    totalRev += row.Amount;
-    const price = row.Quantity > 0 ? row.Amount / row.Quantity : 0;
-    let range = '';
-    if (price < 3000) range = '平價 (<3k)';
-    else if (price < 10000) range = '入門 (3k-10k)';
-    else if (price < 25000) range = '中階 (10k-25k)';
-    else if (price < 40000) range = '高階 (25k-40k)';
-    else range = '旗艦 (>40k)';
-
-    if (!bands.has(range)) bands.set(range, { count: 0, revenue: 0 });
-    const b = bands.get(range)!;
-    b.count += row.Quantity;
-    b.revenue += row.Amount;
+  analyzeCategoryPriceBands(data, bands).forEach(cell => {
+    totalRev += cell.revenue;
+    if (!tiers.has(cell.band)) tiers.set(cell.band, { count: 0, revenue: 0 });
+    const t = tiers.get(cell.band)!;
+    t.count += cell.qty;
+    t.revenue += cell.revenue;
   });
 
-  return Array.from(bands.entries()).map(([range, val]) => ({
-    range,
-    salesCount: val.count,
-    revenue: val.revenue,
-    percent: totalRev > 0 ? (val.revenue / totalRev) * 100 : 0
-  })).sort((a, b) => {
-    const order = ['平價 (<3k)', '入門 (3k-10k)', '中階 (10k-25k)', '高階 (25k-40k)', '旗艦 (>40k)'];
-    return order.indexOf(a.range) - order.indexOf(b.range);
-  });
+  return Array.from(tiers.entries())
+    .map(([range, val]) => ({
+      range,
+      salesCount: val.count,
+      revenue: val.revenue,
+      percent: totalRev > 0 ? (val.revenue / totalRev) * 100 : 0
+    }))
+    .sort((a, b) => TIER_ORDER.indexOf(a.range) - TIER_ORDER.indexOf(b.range));
 };
 
 /**
  * 4. Brand Analysis
  */
 export const analyzeBrands = (data: SalesRecord[]): BrandMetric[] => {
-  const brandMap = new Map<string, { revenue: number, count: number }>();
+  const brandMap = new Map<string, { revenue: number, count: number, grossQty: number, returnQty: number }>();
   let totalRev = 0;
 
   data.forEach(row => {
@@ -239,11 +342,13 @@ export const analyzeBrands = (data: SalesRecord[]): BrandMetric[] => {
     const brand = row.Brand;
 
     if (!brandMap.has(brand)) {
-      brandMap.set(brand, { revenue: 0, count: 0 });
+      brandMap.set(brand, { revenue: 0, count: 0, grossQty: 0, returnQty: 0 });
     }
     const b = brandMap.get(brand)!;
     b.revenue += rev;
     b.count += qty;
+    if (isReturnRecord(row)) b.returnQty += Math.abs(qty);
+    else b.grossQty += qty;
   });
 
   return Array.from(brandMap.entries())
@@ -251,7 +356,9 @@ export const analyzeBrands = (data: SalesRecord[]): BrandMetric[] => {
       brand,
       revenue: data.revenue,
       salesCount: data.count,
-      percentage: totalRev > 0 ? (data.revenue / totalRev) * 100 : 0
+      percentage: totalRev > 0 ? (data.revenue / totalRev) * 100 : 0,
+      returnQty: data.returnQty,
+      returnRate: data.grossQty > 0 ? Math.round((data.returnQty / data.grossQty) * 1000) / 10 : 0
     }))
     .sort((a, b) => b.revenue - a.revenue);
 };
@@ -269,7 +376,7 @@ export const analyzeDailyTrend = (data: SalesRecord[]): DailyTrendMetric[] => {
     }
     const d = dayMap.get(row.Date)!;
     d.revenue += row.Amount;
-    d.orders += 1;
+    if (!isReturnRecord(row)) d.orders += 1;
   });
 
   return Array.from(dayMap.entries())
@@ -285,112 +392,77 @@ export const analyzeDailyTrend = (data: SalesRecord[]): DailyTrendMetric[] => {
 
 /**
  * 6. 庫存指標計算 (安全庫存、再訂購點、建議進貨量)
+ * 以連續日曆序列計算 (沒有銷售的日子補 0，見 timeSeries.ts)，冷門商品的波動不會被高估
+ * 前置天數、交期波動、MOQ、每箱入數依品牌設定，服務水準依 ABC 等級 (見 supplierSettings.ts)
  * 公式：
- * - 安全庫存 = Z × σ × √(前置期)，Z=1.65 對應 95% 服務水準
+ * - 安全庫存 = Z × √(前置期 × σ日² + 日均² × σ前置期²)
  * - 再訂購點 = 安全庫存 + (日均銷量 × 前置期)
- * - 建議進貨量 = 日均銷量 × 30 (一個月需求)
+ * - 建議進貨量 = 該品項下月預測銷量 (見 demandForecast.ts)，無預測時為日均銷量 × 30；再進位至 MOQ 與整箱
  */
 export const calculateInventoryMetrics = (
   data: SalesRecord[],
-  leadTimeDays: number = 7
+  productForecasts: DemandForecast[] = [],
+  settings: InventorySettings = DEFAULT_INVENTORY_SETTINGS,
+  performance: ProductPerformance[] = []
 ): InventoryMetrics[] => {
-  // 計算資料涵蓋天數
-  const dates = [...new Set(data.map(r => r.Date))].sort();
-  const totalDays = dates.length || 1;
-
-  // 按商品聚合
-  const productMap = new Map<string, { qty: number[], category: string }>();
-
-  data.forEach(row => {
-    if (!productMap.has(row.Product)) {
-      productMap.set(row.Product, { qty: [], category: row.Category });
-    }
-    productMap.get(row.Product)!.qty.push(row.Quantity);
-  });
-
-  const Z = 1.65; // 95% 服務水準對應的 Z 值
-
-  return Array.from(productMap.entries()).map(([productName, info]) => {
-    const totalQty = info.qty.reduce((a, b) => a + b, 0);
-    const avgDailySales = totalQty / totalDays;
-
-    // 計算標準差
-    const mean = info.qty.reduce((a, b) => a + b, 0) / info.qty.length;
-    const variance = info.qty.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / info.qty.length;
-    const stdDev = Math.sqrt(variance);
-
-    // 安全庫存 = Z × σ × √(前置期)
-    const safetyStock = Math.ceil(Z * stdDev * Math.sqrt(leadTimeDays));
+  const forecastMap = new Map(productForecasts.map(f => [f.key, f]));
+  const abcMap = new Map(performance.map(p => [p.productName, p.abcClass]));
+  const brandMap = new Map<string, string>();
+  data.forEach(r => { if (!brandMap.has(r.Product)) brandMap.set(r.Product, r.Brand); });
+  const weeklyMap = new Map(buildTimeSeries(data, r => r.Product, 'week').map(s => [s.key, s]));
+
+  return buildTimeSeries(data, r => r.Product, 'day').map(daily => {
+    const { mean: avgDailySales, stdDev } = seriesStats(daily.values);
+    const weekly = weeklyMap.get(daily.key);
+    const sellingDays = daily.values.filter(v => v > 0).length;
+
+    const brand = brandMap.get(daily.key);
+    const supplier = getSupplierSettings(brand, settings);
+    const abcClass = abcMap.get(daily.key) ?? ABCClass.C;
+    const serviceLevel = settings.serviceLevels[abcClass];
+    const Z = zForServiceLevel(serviceLevel);
+    const leadTime = supplier.leadTimeDays;
+
+    // 安全庫存：同時考慮需求波動與交期波動
+    const safetyStock = Math.ceil(Z * Math.sqrt(
+      leadTime * stdDev * stdDev + avgDailySales * avgDailySales * supplier.leadTimeStdDays * supplier.leadTimeStdDays
+    ));
 
     // 再訂購點 = 安全庫存 + (日均銷量 × 前置期)
-    const reorderPoint = Math.ceil(safetyStock + (avgDailySales * leadTimeDays));
+    const reorderPoint = Math.ceil(safetyStock + (avgDailySales * leadTime));
 
-    // 建議進貨量 = 30 天需求
-    const suggestedOrderQty = Math.ceil(avgDailySales * 30);
+    // 建議進貨量 = 下月預測需求 (無預測時以 30 天平均需求代替)，進位至 MOQ 與整箱
+    const forecast = forecastMap.get(daily.key);
+    const rawOrderQty = Math.ceil(forecast ? forecast.nextMonthQty : avgDailySales * 30);
+    const suggestedOrderQty = roundToPack(rawOrderQty, supplier.moq, supplier.packSize);
 
     return {
-      productName,
-      category: info.category,
+      productName: daily.key,
+      category: daily.category,
       avgDailySales: Math.round(avgDailySales * 100) / 100,
       salesVariance: Math.round(stdDev * 100) / 100,
       safetyStock,
       reorderPoint,
-      suggestedOrderQty
+      suggestedOrderQty,
+      forecastMethod: forecast?.method,
+      avgWeeklySales: weekly ? Math.round(seriesStats(weekly.values).mean * 10) / 10 : 0,
+      sellingDayRatio: daily.values.length > 0 ? Math.round((sellingDays / daily.values.length) * 1000) / 10 : 0,
+      brand,
+      abcClass,
+      leadTimeDays: leadTime,
+      serviceLevel,
+      moq: supplier.moq,
+      packSize: supplier.packSize,
+      rawOrderQty
     };
   }).sort((a, b) => b.avgDailySales - a.avgDailySales);
 };
 
 /**
- * 7. 需求預測 (3個月移動平均)
+ * 7. 需求預測 (Holt-Winters / 季節性 Naive，模型細節見 forecasting.ts)
  */
-export const forecastNextMonth = (seasonality: SeasonalityData[]): ForecastResult => {
-  if (seasonality.length === 0) {
-    return {
-      nextMonthRevenue: 0,
-      nextMonthQty: 0,
-      trend: 'STABLE',
-      trendPercent: 0,
-      confidence: 'LOW',
-      method: '無歷史數據'
-    };
-  }
-
-  // 取最近 3 個月數據
-  const recent = seasonality.slice(-3);
-  const revenues = recent.map(s => s.revenue);
-  const quantities = recent.map(s => s.sales);
-
-  // 移動平均
-  const avgRevenue = revenues.reduce((a, b) => a + b, 0) / revenues.length;
-  const avgQty = quantities.reduce((a, b) => a + b, 0) / quantities.length;
-
-  // 判斷趨勢
-  let trend: 'UP' | 'DOWN' | 'STABLE' = 'STABLE';
-  let trendPercent = 0;
-
-  if (revenues.length >= 2) {
-    const lastMonth = revenues[revenues.length - 1];
-    const prevMonth = revenues[revenues.length - 2];
-    trendPercent = prevMonth > 0 ? ((lastMonth - prevMonth) / prevMonth) * 100 : 0;
-
-    if (trendPercent > 5) trend = 'UP';
-    else if (trendPercent < -5) trend = 'DOWN';
-  }
-
-  // 信心度判斷
-  let confidence: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
-  if (seasonality.length >= 6) confidence = 'HIGH';
-  else if (seasonality.length < 3) confidence = 'LOW';
-
-  return {
-    nextMonthRevenue: Math.round(avgRevenue),
-    nextMonthQty: Math.round(avgQty),
-    trend,
-    trendPercent: Math.round(trendPercent * 10) / 10,
-    confidence,
-    method: '3個月移動平均'
-  };
-};
+export const forecastNextMonth = (seasonality: SeasonalityData[], horizon?: number): ForecastResult =>
+  forecastMonthly(seasonality, horizon);
 
 /**
  * 8. 同期比較 (年增率 YoY / 月環比 MoM)
@@ -461,23 +533,25 @@ export const analyzeProfitMargin = (data: SalesRecord[]): ProfitAnalysis[] => {
         ? Math.round(((info.revenue - info.cost) / info.revenue) * 1000) / 10
         : 0
     }))
-    .filter(p => p.totalRevenue > 0)
+    .filter(p => p.totalRevenue > 0 && p.totalCost > 0) // 沒有成本資料的商品無法計算毛利
     .sort((a, b) => b.marginPercent - a.marginPercent);
 };
 
 /**
  * 10. 滯銷品警示
  * 標準：超過 thresholdDays 天未銷售的商品
+ * asOfDate：計算未銷售天數的基準日，篩選部分資料時應傳入整份資料的最後日期
  */
 export const detectSlowMoving = (
   data: SalesRecord[],
-  thresholdDays: number = 30
+  thresholdDays: number = 30,
+  asOfDate?: string
 ): SlowMovingAlert[] => {
   // 找出資料範圍內的最後日期
   const dates = data.map(r => r.Date).filter(d => d !== 'Unknown').sort();
   if (dates.length === 0) return [];
 
-  const lastRecordDate = new Date(dates[dates.length - 1]);
+  const lastRecordDate = new Date(asOfDate || dates[dates.length - 1]);
   const firstRecordDate = new Date(dates[0]);
 
   // 計算資料涵蓋天數
@@ -488,16 +562,18 @@ export const detectSlowMoving = (
 
   data.forEach(row => {
     if (!productMap.has(row.Product)) {
-      productMap.set(row.Product, { lastSale: row.Date, totalQty: 0, category: row.Category });
+      productMap.set(row.Product, { lastSale: '', totalQty: 0, category: row.Category });
     }
     const p = productMap.get(row.Product)!;
     p.totalQty += row.Quantity;
-    if (row.Date > p.lastSale) p.lastSale = row.Date;
+    // 退貨不算銷售
+    if (!isReturnRecord(row) && row.Date > p.lastSale) p.lastSale = row.Date;
   });
 
   const alerts: SlowMovingAlert[] = [];
 
   productMap.forEach((info, productName) => {
+    if (!info.lastSale) return; // 只有退貨紀錄
     const lastSaleDate = new Date(info.lastSale);
     const daysSinceLastSale = Math.ceil((lastRecordDate.getTime() - lastSaleDate.getTime()) / (1000 * 60 * 60 * 24));
 
@@ -0,0 +1,115 @@
+import { SalesRecord, DataQualityIssue, DataQualityReport } from '../types';
+
+/**
+ * 數值解析：允許千分位、貨幣符號 (例如 "NT$1,200")
+ * 空值視為 0 且不算錯誤
+ */
+export const parseNumber = (val: any): { value: number; valid: boolean } => {
+  if (val === null || val === undefined || val === '') return { value: 0, valid: true };
+  if (typeof val === 'number') return { value: isNaN(val) ? 0 : val, valid: !isNaN(val) };
+
+  const cleaned = String(val).replace(/[,\s]|NT\$|\$|元/gi, '');
+  const num = Number(cleaned);
+  return isNaN(num) ? { value: 0, valid: false } : { value: num, valid: true };
+};
+
+const recordLocation = (r: SalesRecord): Pick<DataQualityIssue, 'sourceFile' | 'sourceSheet' | 'rowNumber'> => ({
+  sourceFile: r.SourceFile,
+  sourceSheet: r.SourceSheet,
+  rowNumber: r.SourceRow
+});
+
+const describeRow = (r: SalesRecord) =>
+  r.SourceRow ? `${r.SourceSheet ? `${r.SourceSheet} ` : ''}第 ${r.SourceRow} 列` : '未知列';
+
+/**
+ * 重複列偵測：日期、門市、商品、數量、金額皆相同
+ * 同日同品可能是合法的兩筆交易，因此只提示不刪除
+ */
+export const detectDuplicates = (records: SalesRecord[]): DataQualityIssue[] => {
+  const seen = new Map<string, SalesRecord>();
+  const issues: DataQualityIssue[] = [];
+
+  records.forEach(r => {
+    const key = [r.Date, r.Store ?? '', r.Product, r.Quantity, r.Amount].join('|');
+    const first = seen.get(key);
+    if (first) {
+      issues.push({
+        type: 'DUPLICATE',
+        severity: 'WARNING',
+        ...recordLocation(r),
+        product: r.Product,
+        message: `與 ${first.SourceFile ?? ''} ${describeRow(first)} 完全相同`
+      });
+    } else {
+      seen.set(key, r);
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * 單價異常偵測：與該商品單價中位數相差 3 倍以上
+ * 贈品 (金額 0) 不列入
+ */
+export const detectPriceOutliers = (records: SalesRecord[], ratio: number = 3): DataQualityIssue[] => {
+  const byProduct = new Map<string, SalesRecord[]>();
+  records.forEach(r => {
+    if (r.isGift || r.recordType === 'ADJUSTMENT' || r.Quantity === 0 || r.Amount === 0) return;
+    if (!byProduct.has(r.Product)) byProduct.set(r.Product, []);
+    byProduct.get(r.Product)!.push(r);
+  });
+
+  const issues: DataQualityIssue[] = [];
+  byProduct.forEach((rows, product) => {
+    if (rows.length < 3) return;
+    const prices = rows.map(r => r.Amount / r.Quantity).sort((a, b) => a - b);
+    const median = prices[Math.floor(prices.length / 2)];
+    if (median <= 0) return;
+
+    rows.forEach(r => {
+      const price = r.Amount / r.Quantity;
+      if (price > median * ratio || price < median / ratio) {
+        issues.push({
+          type: 'PRICE_OUTLIER',
+          severity: 'WARNING',
+          ...recordLocation(r),
+          field: 'Amount',
+          value: String(Math.round(price)),
+          product,
+          message: `單價 ${Math.round(price)} 與中位數 ${Math.round(median)} 差異過大`
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * 合併多個工作表的報告，並對合併後的資料做跨列檢查 (重複、單價異常)
+ */
+export const buildDataQualityReport = (
+  reports: DataQualityReport[],
+  records: SalesRecord[]
+): DataQualityReport => ({
+  totalRows: reports.reduce((a, r) => a + r.totalRows, 0),
+  acceptedRows: reports.reduce((a, r) => a + r.acceptedRows, 0),
+  rejectedRows: reports.reduce((a, r) => a + r.rejectedRows, 0),
+  issues: [
+    ...reports.flatMap(r => r.issues),
+    ...detectDuplicates(records),
+    ...detectPriceOutliers(records)
+  ]
+});
+
+export const ISSUE_LABELS: Record<DataQualityIssue['type'], string> = {
+  REJECTED: '已排除',
+  INVALID_DATE: '日期無法解析',
+  NON_NUMERIC: '非數字',
+  DEFAULT_VALUE: '缺值 (已套用預設)',
+  PRICE_OUTLIER: '單價異常',
+  ADJUSTMENT: '折扣/調整',
+  DUPLICATE: '重複列'
+};
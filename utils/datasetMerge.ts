@@ -0,0 +1,88 @@
+import { DataQualityReport, DateRange, MergeStrategy, OverlapReport, SalesRecord } from '../types';
+
+const recordKey = (r: SalesRecord) => [r.Date, r.Store ?? '', r.Product, r.Quantity, r.Amount].join('|');
+
+/**
+ * 資料涵蓋的日期區間 (忽略 Unknown 日期)
+ */
+export const getDateRange = (records: SalesRecord[]): DateRange | null => {
+  const dates = records.map(r => r.Date).filter(d => d !== 'Unknown').sort();
+  if (dates.length === 0) return null;
+  return { start: dates[0], end: dates[dates.length - 1] };
+};
+
+const inRange = (date: string, range: DateRange) => date >= range.start && date <= range.end;
+
+/**
+ * 新資料每列都有門市時，只與相同門市的既有資料比對 (各門市分別匯入不互相覆蓋)
+ */
+const storeScope = (incoming: SalesRecord[]) => {
+  if (incoming.length === 0 || !incoming.every(r => r.Store)) return () => true;
+  const stores = new Set(incoming.map(r => r.Store));
+  return (r: SalesRecord) => stores.has(r.Store);
+};
+
+/**
+ * 比對既有資料與新資料：日期重疊區間與完全相同的列
+ */
+export const analyzeOverlap = (allExisting: SalesRecord[], incoming: SalesRecord[]): OverlapReport => {
+  const existing = allExisting.filter(storeScope(incoming));
+  const existingRange = getDateRange(existing);
+  const incomingRange = getDateRange(incoming);
+
+  let overlapRange: DateRange | null = null;
+  if (existingRange && incomingRange) {
+    const start = existingRange.start > incomingRange.start ? existingRange.start : incomingRange.start;
+    const end = existingRange.end < incomingRange.end ? existingRange.end : incomingRange.end;
+    if (start <= end) overlapRange = { start, end };
+  }
+
+  const existingKeys = new Set(existing.map(recordKey));
+  const duplicateCount = incoming.filter(r => existingKeys.has(recordKey(r))).length;
+
+  return {
+    existingRange,
+    incomingRange,
+    overlapRange,
+    existingInOverlap: overlapRange ? existing.filter(r => inRange(r.Date, overlapRange!)).length : 0,
+    incomingInOverlap: overlapRange ? incoming.filter(r => inRange(r.Date, overlapRange!)).length : 0,
+    duplicateCount
+  };
+};
+
+/**
+ * 合併新舊資料
+ * - REPLACE：重疊區間以新資料為準 (移除舊資料在該區間的紀錄；依門市範圍見 storeScope)
+ * - SKIP：略過新資料在重疊區間的紀錄，只補上新的期間
+ * - KEEP_BOTH：全部保留 (重疊區間可能重複計算)
+ */
+export const mergeRecords = (
+  existing: SalesRecord[],
+  incoming: SalesRecord[],
+  strategy: MergeStrategy
+): SalesRecord[] => {
+  const { overlapRange } = analyzeOverlap(existing, incoming);
+  if (!overlapRange || strategy === 'KEEP_BOTH') return [...existing, ...incoming];
+
+  if (strategy === 'REPLACE') {
+    const inScope = storeScope(incoming);
+    return [...existing.filter(r => !inScope(r) || !inRange(r.Date, overlapRange)), ...incoming];
+  }
+  return [...existing, ...incoming.filter(r => !inRange(r.Date, overlapRange))];
+};
+
+/**
+ * 合併兩次匯入的資料品質報告
+ */
+export const mergeQualityReports = (
+  base: DataQualityReport | undefined,
+  added: DataQualityReport
+): DataQualityReport => {
+  if (!base) return added;
+  return {
+    totalRows: base.totalRows + added.totalRows,
+    acceptedRows: base.acceptedRows + added.acceptedRows,
+    rejectedRows: base.rejectedRows + added.rejectedRows,
+    issues: [...base.issues, ...added.issues]
+  };
+};
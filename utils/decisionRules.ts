@@ -0,0 +1,236 @@
+import {
+  ABCClass, DecisionRuleSettings, DecisionTag, LifecycleStage, ProductDecision, ProductPerformance, XYZClass
+} from '../types';
+import { addDays } from './timeSeries';
+
+const STORAGE_KEY = 'decisionRuleSettings';
+const DAY_MS = 86400000;
+
+export const DEFAULT_DECISION_RULE_SETTINGS: DecisionRuleSettings = {
+  useAI: true,
+  slowMovingDays: 30,
+  highVelocityScore: 70,
+  lowVelocityScore: 30,
+  lowMarginPct: 10,
+  highPricePercentile: 80
+};
+
+type Decision = Pick<ProductDecision, 'tag' | 'reason' | 'action'>;
+
+interface RuleContext {
+  p: ProductPerformance;
+  settings: DecisionRuleSettings;
+  daysSinceLastSale: number | null;
+  marginPct: number | null;
+  pricePercentile: number;
+}
+
+const isSlow = (c: RuleContext) => c.daysSinceLastSale !== null && c.daysSinceLastSale >= c.settings.slowMovingDays;
+const isLowVelocity = (c: RuleContext) => c.p.velocityScore <= c.settings.lowVelocityScore;
+const isHighVelocity = (c: RuleContext) => c.p.velocityScore >= c.settings.highVelocityScore;
+const abc = (c: RuleContext) => c.p.abcClass.charAt(0);
+
+const ratioText = (c: RuleContext) => {
+  const ratio = c.p.lifecycleSignals?.velocityRatio;
+  return ratio !== null && ratio !== undefined ? `，近期速度為過去的 ${ratio} 倍` : '';
+};
+
+const demandAction = (p: ProductPerformance) => {
+  if (p.xyzClass === XYZClass.X) return '維持安全庫存，依再訂購點自動補貨';
+  if (p.xyzClass === XYZClass.Z) return '需求不規則，少量備貨並依訂單補貨';
+  return '維持安全庫存，旺季前提高備貨';
+};
+
+/**
+ * 決策規則 (依序比對，第一條符合者為準)
+ */
+const RULES: ((c: RuleContext) => Decision | null)[] = [
+  // A 類
+  c => abc(c) === 'A' && isSlow(c) ? {
+    tag: DecisionTag.WATCH_LIST,
+    reason: `A 類核心商品已 ${c.daysSinceLastSale} 天未售出`,
+    action: '確認是否缺貨、停產或陳列異常'
+  } : null,
+  c => abc(c) === 'A' && c.p.lifecycle === LifecycleStage.DECLINE ? {
+    tag: DecisionTag.WATCH_LIST,
+    reason: `A 類但已進入衰退期${ratioText(c)}`,
+    action: '下修安全庫存，準備接替商品'
+  } : null,
+  c => abc(c) === 'A' ? {
+    tag: DecisionTag.MAIN_STOCK,
+    reason: `A 類核心商品 (${c.p.xyzClass})，營收貢獻高`,
+    action: demandAction(c.p)
+  } : null,
+
+  // 新品：資料期間短，不因總量低而淘汰
+  c => c.p.lifecycle === LifecycleStage.NEW ? {
+    tag: DecisionTag.WATCH_LIST,
+    reason: `新品導入 (首次銷售 ${c.p.lifecycleSignals?.firstSaleDate ?? '-'})`,
+    action: '小量補貨，觀察 4–8 週銷售速度'
+  } : null,
+
+  // 滯銷 / 衰退
+  c => abc(c) === 'C' && isSlow(c) ? {
+    tag: DecisionTag.STOP_ORDER,
+    reason: `C 類且已 ${c.daysSinceLastSale} 天未售出`,
+    action: '停止進貨，出清現有庫存'
+  } : null,
+  c => abc(c) === 'C' && c.p.lifecycle === LifecycleStage.DECLINE ? {
+    tag: DecisionTag.STOP_ORDER,
+    reason: `C 類且進入衰退期${ratioText(c)}`,
+    action: '停止進貨，售完不補'
+  } : null,
+  c => isSlow(c) ? {
+    tag: DecisionTag.WATCH_LIST,
+    reason: `已 ${c.daysSinceLastSale} 天未售出`,
+    action: '暫停補貨，評估促銷或調撥'
+  } : null,
+
+  // 毛利與陳列
+  c => c.marginPct !== null && c.marginPct < c.settings.lowMarginPct && isLowVelocity(c) ? {
+    tag: abc(c) === 'C' ? DecisionTag.STOP_ORDER : DecisionTag.WATCH_LIST,
+    reason: `毛利率 ${c.marginPct}% 偏低且週轉慢`,
+    action: abc(c) === 'C' ? '停止進貨，改推高毛利替代品' : '重新議價或調整售價'
+  } : null,
+  c => c.pricePercentile >= c.settings.highPricePercentile && isLowVelocity(c) ? {
+    tag: DecisionTag.DISPLAY_ONLY,
+    reason: '類別內高單價、低週轉',
+    action: '保留 1–2 件形象陳列，接單後調貨'
+  } : null,
+
+  // B 類
+  c => abc(c) === 'B' && (c.p.lifecycle === LifecycleStage.GROWTH || isHighVelocity(c)) ? {
+    tag: DecisionTag.MAIN_STOCK,
+    reason: c.p.lifecycle === LifecycleStage.GROWTH ? `B 類成長期商品${ratioText(c)}` : 'B 類高週轉商品',
+    action: demandAction(c.p)
+  } : null,
+  c => abc(c) === 'B' ? {
+    tag: DecisionTag.WATCH_LIST,
+    reason: 'B 類常規商品',
+    action: '依再訂購點正常補貨'
+  } : null,
+
+  // C 類
+  c => isLowVelocity(c) ? {
+    tag: DecisionTag.STOP_ORDER,
+    reason: 'C 類長尾且低週轉',
+    action: '停止進貨，售完不補'
+  } : null,
+  c => ({
+    tag: DecisionTag.WATCH_LIST,
+    reason: c.p.lifecycle === LifecycleStage.GROWTH ? `C 類但處於成長期${ratioText(c)}` : 'C 類長尾商品，週轉尚可',
+    action: '少量補貨，定期檢視'
+  })
+];
+
+// 最後一條規則一定有結果
+const firstMatch = (c: RuleContext): Decision => {
+  for (const rule of RULES) {
+    const decision = rule(c);
+    if (decision) return decision;
+  }
+  return RULES[RULES.length - 1](c)!;
+};
+
+/**
+ * 各商品單價在同類別中的百分位 (0-100)
+ */
+const pricePercentiles = (performance: ProductPerformance[]): Map<string, number> => {
+  const byCategory = new Map<string, number[]>();
+  performance.forEach(p => {
+    if (!byCategory.has(p.category)) byCategory.set(p.category, []);
+    byCategory.get(p.category)!.push(p.averagePrice);
+  });
+  byCategory.forEach(prices => prices.sort((a, b) => a - b));
+
+  return new Map(performance.map(p => {
+    const prices = byCategory.get(p.category)!;
+    if (prices.length <= 1) return [p.productName, 0];
+    const rank = prices.filter(v => v < p.averagePrice).length;
+    return [p.productName, Math.round((rank / (prices.length - 1)) * 100)];
+  }));
+};
+
+/**
+ * 本地決策引擎：依 ABC 分級、動銷速度、毛利、生命週期與滯銷天數產生決策
+ * - 不需 AI 即可運作；AI 可用時只改寫理由與行動 (見 geminiService.ts)
+ * - 滯銷天數以商品最後銷售日至資料最後一天計算
+ */
+export const generateRuleDecisions = (
+  performance: ProductPerformance[],
+  settings: DecisionRuleSettings = DEFAULT_DECISION_RULE_SETTINGS
+): ProductDecision[] => {
+  const percentiles = pricePercentiles(performance);
+
+  return performance.map(p => {
+    const signals = p.lifecycleSignals;
+    const dataEnd = signals ? addDays(signals.firstSaleDate, signals.ageDays - 1) : null;
+    const daysSinceLastSale = signals?.lastSaleDate && dataEnd
+      ? Math.round((Date.parse(dataEnd) - Date.parse(signals.lastSaleDate)) / DAY_MS)
+      : null;
+    const marginPct = p.grossProfit !== undefined && p.totalAmount > 0
+      ? Math.round((p.grossProfit / p.totalAmount) * 1000) / 10
+      : null;
+
+    const context: RuleContext = { p, settings, daysSinceLastSale, marginPct, pricePercentile: percentiles.get(p.productName) ?? 0 };
+    const decision = firstMatch(context);
+
+    return {
+      productName: p.productName,
+      category: p.category,
+      lifecycle: p.lifecycle,
+      ...decision,
+      source: 'RULES'
+    };
+  });
+};
+
+/**
+ * 重新產生規則決策後，沿用先前 AI 改寫的理由與行動
+ * 只保留標籤未改變的商品；標籤改變的商品改用規則理由
+ */
+export const carryOverRefinements = (next: ProductDecision[], previous: ProductDecision[]): ProductDecision[] => {
+  const refined = new Map(previous.filter(d => d.source === 'AI').map(d => [d.productName, d]));
+  return next.map(d => {
+    const prev = refined.get(d.productName);
+    return prev && prev.tag === d.tag ? { ...d, reason: prev.reason, action: prev.action, source: 'AI' } : d;
+  });
+};
+
+/**
+ * 規則模式的策略摘要 (AI 不可用時使用)
+ */
+export const summarizeDecisions = (decisions: ProductDecision[], performance: ProductPerformance[]): string => {
+  const count = (tag: DecisionTag) => decisions.filter(d => d.tag === tag).length;
+  const aItems = performance.filter(p => p.abcClass === ABCClass.A);
+  const aShare = Math.round(aItems.reduce((a, p) => a + p.amountShare, 0));
+  const lifecycleCount = (stage: LifecycleStage) => performance.filter(p => p.lifecycle === stage).length;
+
+  return [
+    `共 ${decisions.length} 項商品：主力進貨 ${count(DecisionTag.MAIN_STOCK)} 項、形象陳列 ${count(DecisionTag.DISPLAY_ONLY)} 項、` +
+      `停止進貨 ${count(DecisionTag.STOP_ORDER)} 項、觀察 ${count(DecisionTag.WATCH_LIST)} 項。`,
+    `A 類 ${aItems.length} 項商品貢獻約 ${aShare}% 營收，應優先確保不缺貨。`,
+    `新品 ${lifecycleCount(LifecycleStage.NEW)} 項、成長期 ${lifecycleCount(LifecycleStage.GROWTH)} 項、` +
+      `衰退期 ${lifecycleCount(LifecycleStage.DECLINE)} 項；衰退與滯銷商品建議控制庫存、逐步出清。`
+  ].join('');
+};
+
+// ========== 設定保存 (localStorage) ==========
+
+export const loadDecisionRuleSettings = (): DecisionRuleSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_DECISION_RULE_SETTINGS, ...JSON.parse(raw) };
+  } catch (err) {
+    console.error('無法讀取決策規則設定:', err);
+  }
+  return DEFAULT_DECISION_RULE_SETTINGS;
+};
+
+export const saveDecisionRuleSettings = (settings: DecisionRuleSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('無法儲存決策規則設定:', err);
+  }
+};
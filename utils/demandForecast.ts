@@ -0,0 +1,101 @@
+import { DemandAccuracy, DemandForecast, SalesRecord, TimeSeries } from '../types';
+import { fitCrostonSBA, fitHolt, fitModel, fitMovingAverage, FittedModel, mape } from './forecasting';
+import { buildTimeSeries } from './timeSeries';
+
+const MAX_HORIZON = 6;
+const BACKTEST_ORIGINS = 6;   // 最多回測最近 6 個月
+const MIN_TRAIN_MONTHS = 3;
+const INTERMITTENT_ADI = 1.32; // 平均需求間隔超過此值視為間歇需求 (Syntetos-Boylan 分界)
+
+/**
+ * 間歇需求判斷：平均每隔幾個月才有一次銷售 (ADI)
+ */
+const isIntermittent = (y: number[]): boolean => {
+  const nonZero = y.filter(v => v > 0).length;
+  return nonZero === 0 || y.length / nonZero > INTERMITTENT_ADI;
+};
+
+type ModelFitter = (y: number[]) => FittedModel;
+
+const holtOrAverage: ModelFitter = y => y.length >= 4 ? fitHolt(y) : fitMovingAverage(y);
+
+/**
+ * 候選模型：間歇需求以 Croston SBA 為主，其餘以依歷史長度選出的季節模型為主，
+ * 另加入較簡單的模型一起回測，取誤差最小者
+ */
+const candidateModels = (y: number[]): ModelFitter[] =>
+  isIntermittent(y)
+    ? [fitCrostonSBA, fitMovingAverage]
+    : [fitModel, holtOrAverage, fitMovingAverage];
+
+const round1 = (v: number | null) => v === null ? null : Math.round(v * 10) / 10;
+
+/**
+ * 滾動起點回測：以第 o 個月之前的資料建模，預測第 o 個月，o 逐月往後推
+ */
+const rollingBacktest = (y: number[], fit: ModelFitter): DemandAccuracy | null => {
+  const start = Math.max(MIN_TRAIN_MONTHS, y.length - BACKTEST_ORIGINS);
+  if (start >= y.length) return null;
+
+  const actual: number[] = [];
+  const predicted: number[] = [];
+  for (let origin = start; origin < y.length; origin++) {
+    const train = y.slice(0, origin);
+    actual.push(y[origin]);
+    predicted.push(Math.max(0, fit(train).forecast(1)[0]));
+  }
+
+  const totalActual = actual.reduce((a, b) => a + b, 0);
+  const absError = actual.reduce((sum, a, i) => sum + Math.abs(predicted[i] - a), 0);
+  const netError = actual.reduce((sum, a, i) => sum + (predicted[i] - a), 0);
+
+  return {
+    origins: actual.length,
+    mape: round1(mape(actual, predicted)),
+    wape: totalActual > 0 ? round1((absError / totalActual) * 100) : null,
+    bias: totalActual > 0 ? round1((netError / totalActual) * 100) : null
+  };
+};
+
+/**
+ * 單一序列預測 (月序列由 buildTimeSeries 產生：從首次銷售月份起，缺月補 0)
+ */
+const forecastSeries = (series: TimeSeries, level: DemandForecast['level']): DemandForecast => {
+  const y = series.values;
+
+  // 依回測 WAPE 選擇模型 (無法回測時採用第一個候選)
+  const scored = candidateModels(y).map(fit => ({ fit, accuracy: rollingBacktest(y, fit) }));
+  const best = scored.reduce((a, b) =>
+    (b.accuracy?.wape ?? Infinity) < (a.accuracy?.wape ?? Infinity) ? b : a
+  );
+  const model = best.fit(y);
+  const horizonQty = model.forecast(MAX_HORIZON).map(v => Math.round(Math.max(0, v) * 10) / 10);
+
+  return {
+    level,
+    key: series.key,
+    category: series.category,
+    method: model.method,
+    intermittent: isIntermittent(y),
+    historyMonths: y.length,
+    nextMonthQty: horizonQty[0],
+    horizonQty,
+    accuracy: best.accuracy
+  };
+};
+
+/**
+ * 品項與類別的月銷量預測
+ * - 間歇需求 (ADI > 1.32) 使用 Croston SBA，其餘依歷史長度選擇 Holt-Winters / 季節性 Naive / Holt
+ * - 各候選模型以滾動起點回測比較，採用 WAPE 最低者
+ * - 贈品同樣消耗庫存，因此一併計入
+ */
+export const forecastDemand = (
+  records: SalesRecord[]
+): { products: DemandForecast[]; categories: DemandForecast[] } => {
+  const byVolume = (a: DemandForecast, b: DemandForecast) => b.nextMonthQty - a.nextMonthQty;
+  return {
+    products: buildTimeSeries(records, r => r.Product, 'month').map(s => forecastSeries(s, 'PRODUCT')).sort(byVolume),
+    categories: buildTimeSeries(records, r => r.Category, 'month').map(s => forecastSeries(s, 'CATEGORY')).sort(byVolume)
+  };
+};
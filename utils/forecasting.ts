@@ -0,0 +1,324 @@
+import { ForecastBacktest, ForecastMethod, ForecastPoint, ForecastResult, SeasonalityData } from '../types';
+
+const SEASON_LENGTH = 12;
+const MAX_HORIZON = 6;
+const BACKTEST_MONTHS = 3;
+const INTERVAL_LEVEL = 80;
+const Z_SCORE = 1.2816; // 80% 雙尾
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  HOLT_WINTERS: 'Holt-Winters 季節模型',
+  SEASONAL_NAIVE: '季節性 Naive (去年同月)',
+  HOLT: 'Holt 線性趨勢',
+  CROSTON_SBA: 'Croston (SBA) 間歇需求',
+  MOVING_AVERAGE: '3個月移動平均',
+  NONE: '無歷史數據'
+};
+
+export interface FittedModel {
+  method: ForecastMethod;
+  forecast: (steps: number) => number[];  // 未來第 1..steps 期的點預測
+  residualSd: number;                     // 一步預測誤差標準差
+  spread: (step: number) => number;       // 第 step 期誤差相對於一步誤差的倍數
+}
+
+// ========== 月份序列 ==========
+
+export const addMonths = (month: string, offset: number): string => {
+  const [y, m] = month.split('-').map(Number);
+  const d = new Date(y, m - 1 + offset, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * 將月度資料整理為連續序列，缺少的月份補 0 (Unknown 日期不列入)
+ */
+export const buildMonthlySeries = (seasonality: SeasonalityData[]) => {
+  const valid = seasonality.filter(s => /^\d{4}-\d{2}$/.test(s.month));
+  if (valid.length === 0) return { months: [] as string[], revenue: [] as number[], qty: [] as number[] };
+
+  const byMonth = new Map(valid.map(s => [s.month, s]));
+  const months: string[] = [];
+  const last = valid[valid.length - 1].month;
+  for (let m = valid[0].month; m <= last; m = addMonths(m, 1)) months.push(m);
+
+  return {
+    months,
+    revenue: months.map(m => byMonth.get(m)?.revenue || 0),
+    qty: months.map(m => byMonth.get(m)?.sales || 0)
+  };
+};
+
+// ========== 模型 ==========
+
+export const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+const rmse = (errors: number[]) => Math.sqrt(errors.reduce((a, e) => a + e * e, 0) / (errors.length || 1));
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+/**
+ * 加法 Holt-Winters：水準 + 趨勢 + 12 個月季節項
+ * 平滑參數以格點搜尋最小化一步預測誤差 (首個季節期間僅用於初始化)
+ */
+const fitHoltWinters = (y: number[], m: number = SEASON_LENGTH): FittedModel => {
+  const run = (alpha: number, beta: number, gamma: number) => {
+    let level = mean(y.slice(0, m));
+    let trend = (mean(y.slice(m, 2 * m)) - level) / m;
+    const season = y.slice(0, m).map(v => v - level);
+    const errors: number[] = [];
+
+    y.forEach((value, t) => {
+      const idx = t % m;
+      const fitted = level + trend + season[idx];
+      if (t >= m) errors.push(value - fitted);
+      const prevLevel = level;
+      level = alpha * (value - season[idx]) + (1 - alpha) * (level + trend);
+      trend = beta * (level - prevLevel) + (1 - beta) * trend;
+      season[idx] = gamma * (value - level) + (1 - gamma) * season[idx];
+    });
+    return { level, trend, season, sd: rmse(errors) };
+  };
+
+  let best = { alpha: 0.3, beta: 0.1, gamma: 0.1, ...run(0.3, 0.1, 0.1) };
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => GAMMAS.forEach(gamma => {
+    const fit = run(alpha, beta, gamma);
+    if (fit.sd < best.sd) best = { alpha, beta, gamma, ...fit };
+  })));
+
+  const n = y.length;
+  return {
+    method: 'HOLT_WINTERS',
+    forecast: steps => Array.from({ length: steps }, (_, i) =>
+      best.level + (i + 1) * best.trend + best.season[(n + i) % m]
+    ),
+    residualSd: best.sd,
+    // 加法模型 h 期誤差變異數：σ²[1 + Σ(α(1 + jβ) + γ·1{j 為季節倍數})²]
+    spread: step => {
+      let sum = 1;
+      for (let j = 1; j < step; j++) {
+        const c = best.alpha * (1 + j * best.beta) + (j % m === 0 ? best.gamma : 0);
+        sum += c * c;
+      }
+      return Math.sqrt(sum);
+    }
+  };
+};
+
+/**
+ * 季節性 Naive：預測值 = 去年同月 (歷史未滿兩年時使用)
+ */
+const fitSeasonalNaive = (y: number[], m: number = SEASON_LENGTH): FittedModel => {
+  const n = y.length;
+  const errors = y.slice(m).map((v, i) => v - y[i]);
+  return {
+    method: 'SEASONAL_NAIVE',
+    forecast: steps => Array.from({ length: steps }, (_, i) => y[n - m + (i % m)]),
+    residualSd: rmse(errors),
+    spread: step => Math.sqrt(Math.floor((step - 1) / m) + 1)
+  };
+};
+
+/**
+ * Holt 線性趨勢 (雙指數平滑)：不足一年資料時使用
+ */
+export const fitHolt = (y: number[]): FittedModel => {
+  const run = (alpha: number, beta: number) => {
+    let level = y[0];
+    let trend = y[1] - y[0];
+    const errors: number[] = [];
+    y.forEach((value, t) => {
+      if (t === 0) return;
+      const fitted = level + trend;
+      if (t >= 2) errors.push(value - fitted);
+      const prevLevel = level;
+      level = alpha * value + (1 - alpha) * (level + trend);
+      trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    });
+    return { level, trend, sd: rmse(errors) };
+  };
+
+  let best = { alpha: 0.3, beta: 0.1, ...run(0.3, 0.1) };
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => {
+    const fit = run(alpha, beta);
+    if (fit.sd < best.sd) best = { alpha, beta, ...fit };
+  }));
+
+  return {
+    method: 'HOLT',
+    forecast: steps => Array.from({ length: steps }, (_, i) => best.level + (i + 1) * best.trend),
+    residualSd: best.sd,
+    spread: step => {
+      let sum = 1;
+      for (let j = 1; j < step; j++) sum += Math.pow(best.alpha * (1 + j * best.beta), 2);
+      return Math.sqrt(sum);
+    }
+  };
+};
+
+/**
+ * Croston SBA：分別平滑「有銷售月份的銷量」與「銷售間隔」，
+ * 預測值 = (1 - α/2) × 銷量 / 間隔 (Syntetos-Boylan 偏誤修正)，適用於冷門家電的間歇需求
+ */
+export const fitCrostonSBA = (y: number[]): FittedModel => {
+  const run = (alpha: number) => {
+    let size: number | null = null;
+    let interval = 1;
+    let gap = 1;
+    const errors: number[] = [];
+    y.forEach(value => {
+      if (size !== null) errors.push(value - (1 - alpha / 2) * size / interval);
+      if (value > 0) {
+        if (size === null) {
+          size = value;
+          interval = gap;
+        } else {
+          size = alpha * value + (1 - alpha) * size;
+          interval = alpha * gap + (1 - alpha) * interval;
+        }
+        gap = 1;
+      } else {
+        gap += 1;
+      }
+    });
+    const rate = size === null ? 0 : (1 - alpha / 2) * size / interval;
+    return { rate, sd: rmse(errors) };
+  };
+
+  let best = { alpha: 0.1, ...run(0.1) };
+  [0.05, 0.2, 0.3].forEach(alpha => {
+    const fit = run(alpha);
+    if (fit.sd < best.sd) best = { alpha, ...fit };
+  });
+
+  return {
+    method: 'CROSTON_SBA',
+    forecast: steps => Array(steps).fill(best.rate),
+    residualSd: best.sd,
+    spread: step => Math.sqrt(step)
+  };
+};
+
+export const fitMovingAverage = (y: number[]): FittedModel => {
+  const recent = y.slice(-3);
+  const avg = mean(recent);
+  return {
+    method: 'MOVING_AVERAGE',
+    forecast: steps => Array(steps).fill(avg),
+    residualSd: Math.sqrt(mean(recent.map(v => (v - avg) ** 2))),
+    spread: () => 1
+  };
+};
+
+/**
+ * 依歷史長度選擇模型：
+ * 滿兩年 → Holt-Winters；滿一年 → 季節性 Naive；4 個月以上 → Holt；其餘 → 移動平均
+ */
+export const fitModel = (y: number[]): FittedModel => {
+  if (y.length >= 2 * SEASON_LENGTH) return fitHoltWinters(y);
+  if (y.length > SEASON_LENGTH) return fitSeasonalNaive(y);
+  if (y.length >= 4) return fitHolt(y);
+  return fitMovingAverage(y);
+};
+
+// ========== 回測 ==========
+
+export const mape = (actual: number[], predicted: number[]): number | null => {
+  const pairs = actual.map((a, i) => [a, predicted[i]]).filter(([a]) => a !== 0);
+  if (pairs.length === 0) return null;
+  return mean(pairs.map(([a, p]) => Math.abs((a - p) / a))) * 100;
+};
+
+const runBacktest = (revenue: number[], qty: number[]): ForecastBacktest | null => {
+  const train = revenue.length - BACKTEST_MONTHS;
+  if (train < 3) return null;
+
+  const revModel = fitModel(revenue.slice(0, train));
+  const qtyModel = fitModel(qty.slice(0, train));
+  const revPred = revModel.forecast(BACKTEST_MONTHS).map(v => Math.max(0, v));
+  const qtyPred = qtyModel.forecast(BACKTEST_MONTHS).map(v => Math.max(0, v));
+  const revActual = revenue.slice(train);
+  const qtyActual = qty.slice(train);
+  const round1 = (v: number | null) => v === null ? null : Math.round(v * 10) / 10;
+
+  return {
+    holdoutMonths: BACKTEST_MONTHS,
+    method: revModel.method,
+    revenueMape: round1(mape(revActual, revPred)),
+    qtyMape: round1(mape(qtyActual, qtyPred)),
+    revenueMae: Math.round(mean(revActual.map((a, i) => Math.abs(a - revPred[i]))))
+  };
+};
+
+// ========== 對外介面 ==========
+
+/**
+ * 月度需求預測：未來 1~6 個月的營收與銷量，附 80% 預測區間與回測誤差
+ */
+export const forecastMonthly = (seasonality: SeasonalityData[], horizon: number = MAX_HORIZON): ForecastResult => {
+  const { months, revenue, qty } = buildMonthlySeries(seasonality);
+  if (months.length === 0) {
+    return {
+      nextMonthRevenue: 0,
+      nextMonthQty: 0,
+      trend: 'STABLE',
+      trendPercent: 0,
+      confidence: 'LOW',
+      method: FORECAST_METHOD_LABELS.NONE,
+      methodCode: 'NONE',
+      intervalLevel: INTERVAL_LEVEL,
+      points: [],
+      backtest: null
+    };
+  }
+
+  const steps = Math.min(Math.max(1, Math.round(horizon)), MAX_HORIZON);
+  const revModel = fitModel(revenue);
+  const qtyModel = fitModel(qty);
+  const revForecast = revModel.forecast(steps);
+  const qtyForecast = qtyModel.forecast(steps);
+  const lastMonth = months[months.length - 1];
+
+  const points: ForecastPoint[] = revForecast.map((rev, i) => {
+    const revMargin = Z_SCORE * revModel.residualSd * revModel.spread(i + 1);
+    const qtyMargin = Z_SCORE * qtyModel.residualSd * qtyModel.spread(i + 1);
+    return {
+      month: addMonths(lastMonth, i + 1),
+      revenue: Math.round(Math.max(0, rev)),
+      revenueLower: Math.round(Math.max(0, rev - revMargin)),
+      revenueUpper: Math.round(Math.max(0, rev + revMargin)),
+      qty: Math.round(Math.max(0, qtyForecast[i])),
+      qtyLower: Math.round(Math.max(0, qtyForecast[i] - qtyMargin)),
+      qtyUpper: Math.round(Math.max(0, qtyForecast[i] + qtyMargin))
+    };
+  });
+
+  // 趨勢：下月預測相對於最近一個月實際
+  const lastRevenue = revenue[revenue.length - 1];
+  const trendPercent = lastRevenue > 0 ? ((points[0].revenue - lastRevenue) / lastRevenue) * 100 : 0;
+  let trend: 'UP' | 'DOWN' | 'STABLE' = 'STABLE';
+  if (trendPercent > 5) trend = 'UP';
+  else if (trendPercent < -5) trend = 'DOWN';
+
+  // 信心度依回測誤差判斷，無法回測時為低
+  const backtest = runBacktest(revenue, qty);
+  let confidence: 'HIGH' | 'MEDIUM' | 'LOW' = 'LOW';
+  if (backtest?.revenueMape !== null && backtest?.revenueMape !== undefined) {
+    if (backtest.revenueMape <= 15) confidence = 'HIGH';
+    else if (backtest.revenueMape <= 30) confidence = 'MEDIUM';
+  }
+
+  return {
+    nextMonthRevenue: points[0].revenue,
+    nextMonthQty: points[0].qty,
+    trend,
+    trendPercent: Math.round(trendPercent * 10) / 10,
+    confidence,
+    method: FORECAST_METHOD_LABELS[revModel.method],
+    methodCode: revModel.method,
+    intervalLevel: INTERVAL_LEVEL,
+    points,
+    backtest
+  };
+};
@@ -0,0 +1,122 @@
+import { GiftAttachment, GiftRules, SalesRecord } from '../types';
+import { isReturnRecord } from './dataProcessor';
+import { groupTransactions, transactionKey } from './transactions';
+
+const STORAGE_KEY = 'giftRules';
+
+export const DEFAULT_GIFT_RULES: GiftRules = {
+  keywords: ['贈品', '附贈', '加贈', '贈', '禮', '送', '免費'],
+  exceptions: ['送風機', '送風', '禮盒', '禮券']
+};
+
+const matchesKeyword = (productName: string, rules: GiftRules): boolean => {
+  const normalized = productName.toLowerCase();
+  if (rules.exceptions.some(e => e && normalized.includes(e.toLowerCase()))) return false;
+  return rules.keywords.some(k => k && normalized.includes(k.toLowerCase()));
+};
+
+/**
+ * 贈品判斷與主商品連結
+ * - 金額為 0 → 贈品
+ * - 名稱符合關鍵字 (且不在例外清單) → 同一交易中有主商品時才視為贈品
+ * - 主商品：同交易中的非贈品，取全期間與該贈品共同出現次數最多者 (同次數取金額高者)
+ */
+export const detectGifts = (records: SalesRecord[], rules: GiftRules): SalesRecord[] => {
+  const isCandidate = (r: SalesRecord) =>
+    !isReturnRecord(r) && (r.Amount === 0 || matchesKeyword(r.Product, rules));
+
+  // 依交易分組 (見 transactions.ts)
+  const transactions = groupTransactions(records);
+
+  // 贈品候選與主商品的共同出現次數
+  const coOccurrence = new Map<string, number>();
+  const pairKey = (gift: string, main: string) => `${gift}\u0000${main}`;
+  transactions.forEach(rows => {
+    const mains = new Set(rows.filter(r => !isCandidate(r) && r.Amount > 0).map(r => r.Product));
+    const gifts = new Set(rows.filter(isCandidate).map(r => r.Product));
+    gifts.forEach(g => mains.forEach(m => {
+      const key = pairKey(g, m);
+      coOccurrence.set(key, (coOccurrence.get(key) || 0) + 1);
+    }));
+  });
+
+  return records.map(r => {
+    if (!isCandidate(r)) {
+      return r.isGift || r.giftParent ? { ...r, isGift: false, giftParent: undefined } : r;
+    }
+
+    const mains = (transactions.get(transactionKey(r)) || [])
+      .filter(m => !isCandidate(m) && m.Amount > 0);
+    const isGift = r.Amount === 0 || mains.length > 0;
+    if (!isGift) return { ...r, isGift: false, giftParent: undefined };
+
+    const parent = mains.reduce<SalesRecord | null>((best, m) => {
+      if (!best) return m;
+      const diff = (coOccurrence.get(pairKey(r.Product, m.Product)) || 0)
+        - (coOccurrence.get(pairKey(r.Product, best.Product)) || 0);
+      if (diff !== 0) return diff > 0 ? m : best;
+      return m.Amount > best.Amount ? m : best;
+    }, null);
+
+    return { ...r, isGift: true, giftParent: parent?.Product };
+  });
+};
+
+/**
+ * 贈品配套分析：每售出一台主商品平均搭贈多少贈品、成本多少
+ * 贈品成本取 Cost 欄位 (單位成本)，無成本資料時為 0
+ */
+export const analyzeGiftAttachment = (records: SalesRecord[]): GiftAttachment[] => {
+  const mainQty = new Map<string, number>();
+  records.forEach(r => {
+    if (!r.isGift) mainQty.set(r.Product, (mainQty.get(r.Product) || 0) + r.Quantity);
+  });
+
+  const pairs = new Map<string, GiftAttachment>();
+  records.forEach(r => {
+    if (!r.isGift || !r.giftParent) return;
+    const key = `${r.giftParent}\u0000${r.Product}`;
+    if (!pairs.has(key)) {
+      pairs.set(key, {
+        mainProduct: r.giftParent,
+        giftProduct: r.Product,
+        mainQty: mainQty.get(r.giftParent) || 0,
+        giftQty: 0,
+        giftCost: 0,
+        giftQtyPerSale: 0,
+        giftCostPerSale: 0
+      });
+    }
+    const p = pairs.get(key)!;
+    p.giftQty += r.Quantity;
+    p.giftCost += (r.Cost || 0) * r.Quantity;
+  });
+
+  return Array.from(pairs.values())
+    .map(p => ({
+      ...p,
+      giftQtyPerSale: p.mainQty > 0 ? Math.round((p.giftQty / p.mainQty) * 100) / 100 : 0,
+      giftCostPerSale: p.mainQty > 0 ? Math.round(p.giftCost / p.mainQty) : 0
+    }))
+    .sort((a, b) => b.giftQty - a.giftQty);
+};
+
+// ========== 規則保存 (localStorage) ==========
+
+export const loadGiftRules = (): GiftRules => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_GIFT_RULES, ...JSON.parse(raw) };
+  } catch (err) {
+    console.error('無法讀取贈品規則:', err);
+  }
+  return DEFAULT_GIFT_RULES;
+};
+
+export const saveGiftRules = (rules: GiftRules): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (err) {
+    console.error('無法儲存贈品規則:', err);
+  }
+};
@@ -0,0 +1,90 @@
+import { LifecycleSignals, LifecycleStage, TimeSeries } from '../types';
+import { addDays } from './timeSeries';
+
+const NEW_PRODUCT_DAYS = 90;      // 首次銷售在 90 天內視為新品
+const NEW_PRODUCT_OFFSET = 30;    // 首次銷售需晚於資料起始日 30 天以上，避免資料期間太短時全部被當成新品
+const RECENT_DAYS = 90;           // 近期速度取最後 90 天 (不超過商品歷史的一半)
+const MIN_HISTORY_DAYS = 28;      // 歷史少於 4 週無法比較近期與過去
+const TREND_WEEKS = 26;           // 趨勢斜率取最近 26 週
+const MIN_TREND_WEEKS = 4;
+const GROWTH_RATIO = 1.3;         // 近期速度 ≥ 過去 1.3 倍
+const DECLINE_RATIO = 0.7;        // 近期速度 ≤ 過去 0.7 倍
+
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * 週銷量線性趨勢：每週變動量占平均週銷量的 %
+ * 日序列由最後一天往前每 7 天切一週，不足一週的開頭捨去
+ */
+const weeklyTrendPct = (daily: number[]): number | null => {
+  const weeks: number[] = [];
+  for (let end = daily.length; end - 7 >= 0 && weeks.length < TREND_WEEKS; end -= 7) {
+    weeks.unshift(daily.slice(end - 7, end).reduce((a, b) => a + b, 0));
+  }
+  if (weeks.length < MIN_TREND_WEEKS) return null;
+
+  const avg = mean(weeks);
+  if (avg <= 0) return null;
+  const mx = (weeks.length - 1) / 2;
+  const cov = weeks.reduce((a, y, x) => a + (x - mx) * (y - avg), 0);
+  const varX = weeks.reduce((a, _, x) => a + (x - mx) ** 2, 0);
+  return round((cov / varX / avg) * 100, 1);
+};
+
+/**
+ * 商品生命週期 (以日序列判斷，結果固定不隨 AI 回應變動)
+ * - 新品導入：首次銷售在最近 90 天內，且晚於資料起始日
+ * - 衰退期：近期日均 ≤ 過去 0.7 倍且週趨勢向下，或近期完全沒有銷售
+ * - 成長期：近期日均 ≥ 過去 1.3 倍且週趨勢向上
+ * - 其餘為成熟期
+ * series 需為 buildTimeSeries 的日序列 (從首次銷售日到資料最後一天)
+ */
+export const classifyLifecycle = (
+  series: TimeSeries,
+  dataStart: string
+): { stage: LifecycleStage; signals: LifecycleSignals } => {
+  const values = series.values;
+  const ageDays = values.length;
+  const lastIndex = values.map(v => v > 0).lastIndexOf(true);
+
+  const recentDays = Math.min(RECENT_DAYS, Math.floor(ageDays / 2));
+  const hasHistory = ageDays >= MIN_HISTORY_DAYS && recentDays > 0;
+  const recentVelocity = mean(values.slice(ageDays - Math.max(recentDays, 1)));
+  const historicalVelocity = hasHistory ? mean(values.slice(0, ageDays - recentDays)) : null;
+  const velocityRatio = historicalVelocity ? round(recentVelocity / historicalVelocity, 2) : null;
+  const trendSlope = weeklyTrendPct(values);
+
+  const signals: LifecycleSignals = {
+    firstSaleDate: series.periods[0],
+    lastSaleDate: lastIndex >= 0 ? series.periods[lastIndex] : null,
+    ageDays,
+    recentVelocity: round(recentVelocity, 2),
+    historicalVelocity: historicalVelocity !== null ? round(historicalVelocity, 2) : null,
+    velocityRatio,
+    trendSlope
+  };
+
+  let stage = LifecycleStage.MATURE;
+  if (ageDays <= NEW_PRODUCT_DAYS && series.periods[0] >= addDays(dataStart, NEW_PRODUCT_OFFSET)) {
+    stage = LifecycleStage.NEW;
+  } else if (hasHistory && recentVelocity === 0) {
+    stage = LifecycleStage.DECLINE;
+  } else if (velocityRatio !== null && velocityRatio <= DECLINE_RATIO && (trendSlope === null || trendSlope < 0)) {
+    stage = LifecycleStage.DECLINE;
+  } else if (velocityRatio !== null && velocityRatio >= GROWTH_RATIO && (trendSlope === null || trendSlope > 0)) {
+    stage = LifecycleStage.GROWTH;
+  }
+
+  return { stage, signals };
+};
+
+/**
+ * 判斷依據的文字說明 (供提示框顯示)
+ */
+export const describeLifecycleSignals = (s: LifecycleSignals): string => [
+  `首次銷售 ${s.firstSaleDate}`,
+  s.lastSaleDate ? `最後銷售 ${s.lastSaleDate}` : '',
+  s.velocityRatio !== null ? `近期/過去速度 ${s.velocityRatio} 倍` : '歷史不足',
+  s.trendSlope !== null ? `週趨勢 ${s.trendSlope > 0 ? '+' : ''}${s.trendSlope}%` : ''
+].filter(Boolean).join(' · ');
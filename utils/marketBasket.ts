@@ -0,0 +1,131 @@
+import { AssociationRule, AttachRecommendation, BasketAnalysis, SalesRecord } from '../types';
+import { isReturnRecord } from './dataProcessor';
+import { groupTransactions, transactionMode } from './transactions';
+
+const MIN_PAIR_COUNT = 3;        // 同時出現少於 3 次的組合不具參考性
+export const MAX_BASKET_ITEMS = 60; // 以日期分組時一天可能有上百品項，超過此數不做配對以免組合爆量
+const MAX_RULES = 200;
+const MAX_ACCESSORIES = 5;
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const pairKey = (a: string, b: string) => `${a}\u0000${b}`;
+
+interface Counts {
+  itemCount: Map<string, number>;
+  pairCount: Map<string, number>; // a < b
+}
+
+const countBaskets = (baskets: string[][]): Counts => {
+  const itemCount = new Map<string, number>();
+  const pairCount = new Map<string, number>();
+  baskets.forEach(items => {
+    items.forEach(i => itemCount.set(i, (itemCount.get(i) || 0) + 1));
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const [a, b] = items[i] < items[j] ? [items[i], items[j]] : [items[j], items[i]];
+        const key = pairKey(a, b);
+        pairCount.set(key, (pairCount.get(key) || 0) + 1);
+      }
+    }
+  });
+  return { itemCount, pairCount };
+};
+
+/**
+ * 關聯規則 (雙向)：support、confidence、lift
+ */
+const mineRules = (counts: Counts, total: number, level: AssociationRule['level']): AssociationRule[] => {
+  const rules: AssociationRule[] = [];
+  counts.pairCount.forEach((count, key) => {
+    if (count < MIN_PAIR_COUNT) return;
+    const [a, b] = key.split('\u0000');
+    [[a, b], [b, a]].forEach(([x, y]) => {
+      const confidence = count / counts.itemCount.get(x)!;
+      const lift = confidence / (counts.itemCount.get(y)! / total);
+      rules.push({
+        level,
+        antecedent: x,
+        consequent: y,
+        pairCount: count,
+        support: round2((count / total) * 100),
+        confidence: round1(confidence * 100),
+        lift: round2(lift)
+      });
+    });
+  });
+  return rules
+    .filter(r => r.lift > 1)
+    .sort((a, b) => b.lift - a.lift || b.pairCount - a.pairCount)
+    .slice(0, MAX_RULES);
+};
+
+/**
+ * 購物籃分析
+ * - 交易重建見 transactions.ts；只計正常銷售列 (排除退貨、折扣調整與贈品)
+ * - 商品與類別各自挖掘關聯規則，只保留 lift > 1 的組合
+ * - 搭售率：主商品的交易中帶上其他「單價較低」商品 (配件) 的比例
+ */
+export const analyzeMarketBasket = (records: SalesRecord[], mainProducts: string[]): BasketAnalysis => {
+  const sales = records.filter(r => !r.isGift && !isReturnRecord(r) && r.recordType !== 'ADJUSTMENT' && r.Quantity > 0);
+  const transactions = Array.from(groupTransactions(sales).values());
+
+  // 品項過多的交易不做配對，也不計入單品次數與交易總數，否則 confidence、搭售率與 lift 會被低估
+  const allBaskets = transactions.map(rows => Array.from(new Set(rows.map(r => r.Product))));
+  const kept = transactions.filter((_, i) => allBaskets[i].length <= MAX_BASKET_ITEMS);
+  const total = kept.length;
+
+  const productBaskets = allBaskets.filter(b => b.length <= MAX_BASKET_ITEMS);
+  const categoryBaskets = kept.map(rows => Array.from(new Set(rows.map(r => r.Category))));
+  const productCounts = countBaskets(productBaskets);
+  const categoryCounts = countBaskets(categoryBaskets);
+
+  // 商品資訊：類別與平均單價 (判斷配件用)
+  const info = new Map<string, { category: string; qty: number; amount: number }>();
+  sales.forEach(r => {
+    const i = info.get(r.Product) || { category: r.Category, qty: 0, amount: 0 };
+    i.qty += r.Quantity;
+    i.amount += r.Amount;
+    info.set(r.Product, i);
+  });
+  const unitPrice = (p: string) => {
+    const i = info.get(p);
+    return i && i.qty > 0 ? i.amount / i.qty : 0;
+  };
+
+  const productRules = total > 0 ? mineRules(productCounts, total, 'PRODUCT') : [];
+
+  const attachments: AttachRecommendation[] = mainProducts
+    .filter(main => productCounts.itemCount.has(main))
+    .map(main => {
+      const mainCount = productCounts.itemCount.get(main)!;
+      const accessories = Array.from(productCounts.itemCount.keys())
+        .filter(p => p !== main && unitPrice(p) < unitPrice(main))
+        .map(p => {
+          const pairCount = productCounts.pairCount.get(main < p ? pairKey(main, p) : pairKey(p, main)) || 0;
+          const attachRate = pairCount / mainCount;
+          return {
+            product: p,
+            category: info.get(p)?.category || '',
+            pairCount,
+            attachRate: round1(attachRate * 100),
+            lift: round2(attachRate / (productCounts.itemCount.get(p)! / total))
+          };
+        })
+        .filter(a => a.pairCount >= MIN_PAIR_COUNT)
+        .sort((a, b) => b.attachRate - a.attachRate || b.lift - a.lift)
+        .slice(0, MAX_ACCESSORIES);
+      return { mainProduct: main, category: info.get(main)?.category || '', transactions: mainCount, accessories };
+    });
+
+  return {
+    mode: transactionMode(sales),
+    transactionCount: transactions.length,
+    multiItemCount: allBaskets.filter(b => b.length > 1).length,
+    skippedLarge: transactions.length - total,
+    productRules,
+    categoryRules: total > 0 ? mineRules(categoryCounts, total, 'CATEGORY') : [],
+    attachments
+  };
+};
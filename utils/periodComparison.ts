@@ -0,0 +1,163 @@
+import {
+  AbcMembershipChange, CategoryBandThresholds, ClassificationSettings, ComparisonBaseline, DatePreset, DateRange, MetricDelta, PeriodComparison,
+  SalesRecord, ShareDelta
+} from '../types';
+import { DEFAULT_CLASSIFICATION_SETTINGS } from './classification';
+import { analyzeBrands, analyzePerformance, analyzePriceBands } from './dataProcessor';
+import { TIER_ORDER, resolveCategoryBands } from './priceBands';
+import { addDays } from './timeSeries';
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  ALL: '全部期間',
+  LAST_30: '最近 30 天',
+  LAST_90: '最近 90 天',
+  THIS_QUARTER: '本季',
+  LAST_QUARTER: '上一季',
+  YTD: '今年以來',
+  SAME_PERIOD_LAST_YEAR: '去年同期',
+  CUSTOM: '自訂區間'
+};
+
+export const BASELINE_LABELS: Record<ComparisonBaseline, string> = {
+  PREVIOUS_PERIOD: '前一期 (等長)',
+  LAST_YEAR: '去年同期'
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const quarterStart = (year: number, quarter: number) => `${year}-${pad(quarter * 3 + 1)}-01`;
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000)) + 1;
+
+// 去年同一天；2/29 對應到 2/28
+const shiftYear = (date: string, years: number) => {
+  const y = +date.slice(0, 4) + years;
+  const md = date.slice(5);
+  const leap = (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+  return `${y}-${md === '02-29' && !leap ? '02-28' : md}`;
+};
+
+/**
+ * 預設區間換算成日期範圍
+ * 匯入的多為歷史資料，「最近」以資料的最後日期為基準，而非今天
+ * 去年同期：今年以來的區間往前推一年 (去年 1/1 至去年同一天)
+ */
+export const resolvePresetRange = (preset: DatePreset, dataRange: DateRange): DateRange => {
+  const end = dataRange.end;
+  const year = +end.slice(0, 4);
+  const quarter = Math.floor((+end.slice(5, 7) - 1) / 3);
+
+  switch (preset) {
+    case 'LAST_30': return { start: addDays(end, -29), end };
+    case 'LAST_90': return { start: addDays(end, -89), end };
+    case 'THIS_QUARTER': return { start: quarterStart(year, quarter), end };
+    case 'LAST_QUARTER': {
+      const [y, q] = quarter === 0 ? [year - 1, 3] : [year, quarter - 1];
+      return { start: quarterStart(y, q), end: addDays(quarterStart(q === 3 ? y + 1 : y, (q + 1) % 4), -1) };
+    }
+    case 'YTD': return { start: `${year}-01-01`, end };
+    case 'SAME_PERIOD_LAST_YEAR': return { start: `${year - 1}-01-01`, end: shiftYear(end, -1) };
+    default: return dataRange;
+  }
+};
+
+/**
+ * 比較基期：緊接在前的等長區間，或去年同期
+ */
+export const baselineRange = (range: DateRange, baseline: ComparisonBaseline): DateRange => {
+  if (baseline === 'LAST_YEAR') return { start: shiftYear(range.start, -1), end: shiftYear(range.end, -1) };
+  const length = daysBetween(range.start, range.end);
+  return { start: addDays(range.start, -length), end: addDays(range.start, -1) };
+};
+
+/**
+ * 依日期區間篩選 (日期不明的紀錄無法歸屬期間，一律排除)
+ */
+export const filterByDateRange = (records: SalesRecord[], range: DateRange): SalesRecord[] =>
+  records.filter(r => r.Date !== 'Unknown' && r.Date >= range.start && r.Date <= range.end);
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+const delta = (current: number, previous: number): MetricDelta => ({
+  current,
+  previous,
+  change: current - previous,
+  changePct: previous !== 0 ? round1(((current - previous) / Math.abs(previous)) * 100) : null
+});
+
+const shareDeltas = (
+  current: { key: string; revenue: number; share: number }[],
+  previous: { key: string; revenue: number; share: number }[]
+): ShareDelta[] => {
+  const keys = Array.from(new Set([...current.map(c => c.key), ...previous.map(p => p.key)]));
+  return keys
+    .map(key => {
+      const c = current.find(x => x.key === key);
+      const p = previous.find(x => x.key === key);
+      return {
+        key,
+        currentRevenue: c?.revenue ?? 0,
+        previousRevenue: p?.revenue ?? 0,
+        currentShare: round1(c?.share ?? 0),
+        previousShare: round1(p?.share ?? 0),
+        sharePts: round1((c?.share ?? 0) - (p?.share ?? 0))
+      };
+    });
+};
+
+/**
+ * 期間比較：兩個區間分別執行既有分析，計算營收、銷量、品牌占比、價格帶組成與 ABC 分級的變化
+ * - ABC 分級在各自期間內重新計算，只列出分級有變動的商品
+ * - 兩期使用同一組價格帶分界，組成變化才可比較
+ */
+export const comparePeriods = (
+  records: SalesRecord[],
+  current: DateRange,
+  previous: DateRange,
+  settings: ClassificationSettings = DEFAULT_CLASSIFICATION_SETTINGS,
+  bands: CategoryBandThresholds = resolveCategoryBands(records)
+): PeriodComparison => {
+  const cur = filterByDateRange(records, current);
+  const prev = filterByDateRange(records, previous);
+  const sum = (rows: SalesRecord[], pick: (r: SalesRecord) => number) => rows.reduce((a, r) => a + pick(r), 0);
+
+  const toBrandShares = (rows: SalesRecord[]) =>
+    analyzeBrands(rows).map(b => ({ key: b.brand, revenue: b.revenue, share: b.percentage }));
+  const toBandShares = (rows: SalesRecord[]) =>
+    analyzePriceBands(rows, bands).map(b => ({ key: b.range, revenue: b.revenue, share: b.percent }));
+
+  const brandShare = shareDeltas(toBrandShares(cur), toBrandShares(prev))
+    .sort((a, b) => Math.abs(b.sharePts) - Math.abs(a.sharePts));
+  // 價格帶維持由低到高的順序
+  const priceBandMix = shareDeltas(toBandShares(cur), toBandShares(prev))
+    .sort((a, b) => TIER_ORDER.indexOf(a.key) - TIER_ORDER.indexOf(b.key));
+
+  const curPerf = analyzePerformance(cur, settings);
+  const prevPerf = analyzePerformance(prev, settings);
+  const prevClass = new Map(prevPerf.map(p => [p.productName, p]));
+  const curClass = new Map(curPerf.map(p => [p.productName, p]));
+  const abcChanges: AbcMembershipChange[] = [
+    ...curPerf
+      .filter(p => prevClass.get(p.productName)?.abcClass !== p.abcClass)
+      .map(p => ({
+        productName: p.productName,
+        category: p.category,
+        previous: prevClass.get(p.productName)?.abcClass ?? null,
+        current: p.abcClass
+      })),
+    ...prevPerf
+      .filter(p => !curClass.has(p.productName))
+      .map(p => ({ productName: p.productName, category: p.category, previous: p.abcClass, current: null }))
+  ];
+
+  return {
+    current,
+    previous,
+    revenue: delta(sum(cur, r => r.Amount), sum(prev, r => r.Amount)),
+    quantity: delta(sum(cur, r => r.Quantity), sum(prev, r => r.Quantity)),
+    brandShare,
+    priceBandMix,
+    abcChanges
+  };
+};
@@ -0,0 +1,179 @@
+import { CategoryBandThresholds, PriceBandCell, PriceBandSettings, SalesRecord } from '../types';
+
+const STORAGE_KEY = 'priceBandSettings';
+
+export const DEFAULT_PRICE_BAND_SETTINGS: PriceBandSettings = {
+  bandCount: 4,
+  custom: {}
+};
+
+export const MIN_BANDS = 2;
+export const MAX_BANDS = 5;
+
+// 價格帶名稱依帶數決定，跨類別彙總時以名稱對齊
+const BAND_NAMES: Record<number, string[]> = {
+  1: ['單一價位'],
+  2: ['平價', '高階'],
+  3: ['平價', '中階', '高階'],
+  4: ['平價', '中階', '高階', '旗艦'],
+  5: ['平價', '入門', '中階', '高階', '旗艦']
+};
+
+export const TIER_ORDER = ['單一價位', '平價', '入門', '中階', '高階', '旗艦'];
+
+export const bandNames = (thresholds: number[]): string[] => BAND_NAMES[thresholds.length + 1] || BAND_NAMES[MAX_BANDS];
+
+/**
+ * 價格落在第幾個價格帶 (等於分界值時歸入較高的帶)
+ */
+export const bandIndexOf = (price: number, thresholds: number[]): number =>
+  thresholds.filter(t => price >= t).length;
+
+/**
+ * 分界取整到兩位有效數字，方便閱讀 (例：12,345 → 12,000)
+ */
+const niceRound = (v: number): number => {
+  if (v <= 0) return 0;
+  const magnitude = Math.pow(10, Math.max(0, Math.floor(Math.log10(v)) - 1));
+  return Math.round(v / magnitude) * magnitude;
+};
+
+export const formatPrice = (v: number): string =>
+  v >= 1000 ? `${Math.round(v / 100) / 10}k` : String(Math.round(v));
+
+export const bandRangeLabel = (index: number, thresholds: number[]): string => {
+  const lower = index > 0 ? thresholds[index - 1] : null;
+  const upper = index < thresholds.length ? thresholds[index] : null;
+  if (lower === null && upper === null) return '全部';
+  if (lower === null) return `<${formatPrice(upper!)}`;
+  if (upper === null) return `≥${formatPrice(lower)}`;
+  return `${formatPrice(lower)}-${formatPrice(upper)}`;
+};
+
+// 成交單價 (僅銷售列；退貨與贈品不參與切分)
+const saleUnitPrice = (r: SalesRecord): number | null =>
+  r.Quantity > 0 && r.Amount > 0 ? r.Amount / r.Quantity : null;
+
+/**
+ * 以銷量加權的分位數切分：每個價格帶約占該類別相同銷量
+ */
+export const quantileThresholds = (records: SalesRecord[], bandCount: number): number[] => {
+  const points = records
+    .map(r => ({ price: saleUnitPrice(r), qty: r.Quantity }))
+    .filter((p): p is { price: number; qty: number } => p.price !== null)
+    .sort((a, b) => a.price - b.price);
+  const totalQty = points.reduce((a, p) => a + p.qty, 0);
+  if (totalQty === 0) return [];
+
+  const thresholds: number[] = [];
+  let cumulative = 0;
+  let next = 1;
+  for (const p of points) {
+    cumulative += p.qty;
+    while (next < bandCount && cumulative >= (totalQty * next) / bandCount) {
+      thresholds.push(niceRound(p.price));
+      next += 1;
+    }
+  }
+  // 價格集中時分界可能重複，合併後價格帶會變少
+  const lowest = niceRound(points[0].price);
+  return Array.from(new Set(thresholds)).filter(t => t > lowest).sort((a, b) => a - b);
+};
+
+/**
+ * 各類別的價格帶分界：自訂優先，其餘依分位數自動切分
+ */
+export const resolveCategoryBands = (
+  records: SalesRecord[],
+  settings: PriceBandSettings = DEFAULT_PRICE_BAND_SETTINGS
+): CategoryBandThresholds => {
+  const byCategory = new Map<string, SalesRecord[]>();
+  records.forEach(r => {
+    if (!byCategory.has(r.Category)) byCategory.set(r.Category, []);
+    byCategory.get(r.Category)!.push(r);
+  });
+
+  const result: CategoryBandThresholds = {};
+  byCategory.forEach((rows, category) => {
+    const custom = settings.custom[category];
+    result[category] = custom && custom.length > 0 ? custom : quantileThresholds(rows, settings.bandCount);
+  });
+  return result;
+};
+
+/**
+ * 類別 × 價格帶營收分布 (熱度圖用)，沒有成交的價格帶也列出
+ */
+export const analyzeCategoryPriceBands = (
+  records: SalesRecord[],
+  bands: CategoryBandThresholds
+): PriceBandCell[] => {
+  const cells = new Map<string, PriceBandCell>();
+  const categoryRevenue = new Map<string, number>();
+
+  const cellFor = (category: string, index: number, thresholds: number[]) => {
+    const key = `${category}|${index}`;
+    if (!cells.has(key)) {
+      cells.set(key, {
+        category,
+        band: bandNames(thresholds)[index],
+        bandIndex: index,
+        lower: index > 0 ? thresholds[index - 1] : null,
+        upper: index < thresholds.length ? thresholds[index] : null,
+        revenue: 0,
+        qty: 0,
+        share: 0
+      });
+    }
+    return cells.get(key)!;
+  };
+
+  records.forEach(r => {
+    const thresholds = bands[r.Category] || [];
+    // 退貨的數量與金額皆為負，單價仍為正，會與原價格帶相抵
+    const price = r.Quantity !== 0 ? r.Amount / r.Quantity : 0;
+    const cell = cellFor(r.Category, bandIndexOf(price, thresholds), thresholds);
+    cell.revenue += r.Amount;
+    cell.qty += r.Quantity;
+    categoryRevenue.set(r.Category, (categoryRevenue.get(r.Category) || 0) + r.Amount);
+  });
+
+  // 補齊沒有成交的價格帶
+  Array.from(categoryRevenue.keys()).forEach(category => {
+    const thresholds = bands[category] || [];
+    for (let i = 0; i <= thresholds.length; i++) cellFor(category, i, thresholds);
+  });
+
+  return Array.from(cells.values())
+    .map(c => {
+      const total = categoryRevenue.get(c.category) || 0;
+      return { ...c, share: total > 0 ? Math.round((c.revenue / total) * 1000) / 10 : 0 };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category) || a.bandIndex - b.bandIndex);
+};
+
+// ========== 設定保存 (localStorage) ==========
+
+export const loadPriceBandSettings = (): PriceBandSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      return {
+        bandCount: saved.bandCount || DEFAULT_PRICE_BAND_SETTINGS.bandCount,
+        custom: saved.custom || {}
+      };
+    }
+  } catch (err) {
+    console.error('無法讀取價格帶設定:', err);
+  }
+  return DEFAULT_PRICE_BAND_SETTINGS;
+};
+
+export const savePriceBandSettings = (settings: PriceBandSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('無法儲存價格帶設定:', err);
+  }
+};
@@ -0,0 +1,179 @@
+import { PriceElasticity, PricePoint, PromotionPeriod, SalesRecord } from '../types';
+import { isReturnRecord } from './dataProcessor';
+import { enumeratePeriods, getCalendarRange, periodOf } from './timeSeries';
+
+const DISCOUNT_THRESHOLD = 0.05;  // 低於原價 5% 以上視為折扣週
+const REGULAR_PRICE_QUANTILE = 0.8; // 原價取各週成交價的第 80 百分位，避免被頻繁促銷拉低
+const BASELINE_WEEKS = 8;         // 促銷前取最多 8 個非折扣週作為基準
+const MIN_OBSERVATIONS = 4;       // 彈性迴歸至少需要 4 個有銷售的週
+const MIN_PRICE_CV = 0.02;        // 價格幾乎沒變動時無法估計彈性
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+const quantile = (values: number[], q: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/**
+ * 對數迴歸斜率：ln(銷量) = a + e × ln(價格)，e 即價格彈性 (通常為負)
+ */
+const logLogSlope = (points: PricePoint[]): number | null => {
+  const obs = points.filter(p => p.price !== null && p.price > 0 && p.qty > 0);
+  if (obs.length < MIN_OBSERVATIONS) return null;
+
+  const prices = obs.map(p => p.price!);
+  const meanPrice = prices.reduce((a, b) => a + b, 0) / prices.length;
+  const priceSd = Math.sqrt(prices.reduce((a, p) => a + (p - meanPrice) ** 2, 0) / prices.length);
+  if (priceSd / meanPrice < MIN_PRICE_CV) return null;
+
+  const x = prices.map(Math.log);
+  const y = obs.map(p => Math.log(p.qty));
+  const mx = x.reduce((a, b) => a + b, 0) / x.length;
+  const my = y.reduce((a, b) => a + b, 0) / y.length;
+  const cov = x.reduce((a, xi, i) => a + (xi - mx) * (y[i] - my), 0);
+  const varX = x.reduce((a, xi) => a + (xi - mx) ** 2, 0);
+  return varX > 0 ? Math.round((cov / varX) * 100) / 100 : null;
+};
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * 連續的折扣週合併為一檔促銷，並與促銷前的非折扣週比較銷量
+ */
+const detectPromotions = (timeline: PricePoint[], regularPrice: number): PromotionPeriod[] => {
+  const promotions: PromotionPeriod[] = [];
+  let i = 0;
+  while (i < timeline.length) {
+    if (!timeline[i].isDiscount) { i++; continue; }
+    let j = i;
+    while (j + 1 < timeline.length && timeline[j + 1].isDiscount) j++;
+
+    const weeks = timeline.slice(i, j + 1);
+    const qty = weeks.reduce((a, w) => a + w.qty, 0);
+    const revenue = weeks.reduce((a, w) => a + w.revenue, 0);
+    const avgPrice = qty > 0 ? revenue / qty : regularPrice;
+
+    // 基準：促銷前的非折扣週；促銷從第一週就開始時改用促銷後
+    let baseline = timeline.slice(0, i).filter(w => !w.isDiscount).slice(-BASELINE_WEEKS);
+    if (baseline.length === 0) baseline = timeline.slice(j + 1).filter(w => !w.isDiscount).slice(0, BASELINE_WEEKS);
+    const baselineWeeklyQty = baseline.length > 0 ? average(baseline.map(w => w.qty)) : 0;
+    const avgWeeklyQty = qty / weeks.length;
+
+    promotions.push({
+      start: weeks[0].period,
+      end: weeks[weeks.length - 1].period,
+      weeks: weeks.length,
+      avgPrice: Math.round(avgPrice),
+      discountPct: round1((1 - avgPrice / regularPrice) * 100),
+      avgWeeklyQty: round1(avgWeeklyQty),
+      baselineWeeklyQty: round1(baselineWeeklyQty),
+      upliftPct: baselineWeeklyQty > 0 ? round1((avgWeeklyQty / baselineWeeklyQty - 1) * 100) : null
+    });
+    i = j + 1;
+  }
+  return promotions;
+};
+
+const weightedMean = (items: { value: number | null; weight: number }[]): number | null => {
+  const valid = items.filter(i => i.value !== null && i.weight > 0);
+  const total = valid.reduce((a, i) => a + i.weight, 0);
+  return total > 0 ? round1(valid.reduce((a, i) => a + i.value! * i.weight, 0) / total) : null;
+};
+
+/**
+ * 價格彈性與促銷成效 (週資料)
+ * - 成交價 = 當週金額 / 數量；只計正常銷售列 (排除退貨、贈品與 0 元列)
+ * - 原價取各週成交價的高百分位，低於原價 5% 以上的週視為折扣週
+ * - 類別層級以營收加權彙總各商品的彈性與成效
+ */
+export const analyzePriceElasticity = (
+  records: SalesRecord[]
+): { products: PriceElasticity[]; categories: PriceElasticity[] } => {
+  const sales = records.filter(r => !r.isGift && !isReturnRecord(r) && r.Quantity > 0 && r.Amount > 0);
+  const range = getCalendarRange(sales);
+  if (!range) return { products: [], categories: [] };
+
+  const groups = new Map<string, { category: string; first: string; weeks: Map<string, { qty: number; revenue: number }> }>();
+  sales.forEach(r => {
+    if (r.Date < range.start || r.Date > range.end) return; // 日期不明
+    if (!groups.has(r.Product)) groups.set(r.Product, { category: r.Category, first: r.Date, weeks: new Map() });
+    const g = groups.get(r.Product)!;
+    if (r.Date < g.first) g.first = r.Date;
+    const week = periodOf(r.Date, 'week');
+    const w = g.weeks.get(week) || { qty: 0, revenue: 0 };
+    w.qty += r.Quantity;
+    w.revenue += r.Amount;
+    g.weeks.set(week, w);
+  });
+
+  const products: (PriceElasticity & { revenue: number })[] = Array.from(groups.entries()).map(([key, g]) => {
+    const weeklyPrices = Array.from(g.weeks.values()).map(w => w.revenue / w.qty);
+    const regularPrice = quantile(weeklyPrices, REGULAR_PRICE_QUANTILE);
+
+    const timeline: PricePoint[] = enumeratePeriods(g.first, range.end, 'week').map(period => {
+      const w = g.weeks.get(period);
+      const price = w ? w.revenue / w.qty : null;
+      return {
+        period,
+        price: price !== null ? Math.round(price) : null,
+        qty: w?.qty || 0,
+        revenue: w?.revenue || 0,
+        isDiscount: price !== null && price < regularPrice * (1 - DISCOUNT_THRESHOLD)
+      };
+    });
+
+    const promotions = detectPromotions(timeline, regularPrice);
+    const discountWeeks = timeline.filter(p => p.isDiscount).length;
+
+    return {
+      level: 'PRODUCT',
+      key,
+      category: g.category,
+      regularPrice: Math.round(regularPrice),
+      elasticity: logLogSlope(timeline),
+      observations: g.weeks.size,
+      discountWeeks,
+      avgDiscountPct: weightedMean(promotions.map(p => ({ value: p.discountPct, weight: p.weeks }))),
+      avgUpliftPct: weightedMean(promotions.map(p => ({ value: p.upliftPct, weight: p.weeks }))),
+      promotions,
+      timeline,
+      revenue: timeline.reduce((a, p) => a + p.revenue, 0)
+    };
+  });
+
+  const byCategory = new Map<string, (PriceElasticity & { revenue: number })[]>();
+  products.forEach(p => {
+    if (!byCategory.has(p.category)) byCategory.set(p.category, []);
+    byCategory.get(p.category)!.push(p);
+  });
+
+  const categories: PriceElasticity[] = Array.from(byCategory.entries()).map(([category, items]) => {
+    const revenue = items.reduce((a, p) => a + p.revenue, 0);
+    const weeks = items.flatMap(p => p.promotions.map(promo => ({ promo, weight: promo.weeks })));
+    return {
+      level: 'CATEGORY',
+      key: category,
+      category,
+      regularPrice: revenue > 0 ? Math.round(items.reduce((a, p) => a + p.regularPrice * p.revenue, 0) / revenue) : 0,
+      elasticity: weightedMean(items.map(p => ({ value: p.elasticity, weight: p.revenue }))),
+      observations: items.filter(p => p.elasticity !== null).length,
+      discountWeeks: new Set(items.flatMap(p => p.timeline.filter(t => t.isDiscount).map(t => t.period))).size,
+      avgDiscountPct: weightedMean(weeks.map(w => ({ value: w.promo.discountPct, weight: w.weight }))),
+      avgUpliftPct: weightedMean(weeks.map(w => ({ value: w.promo.upliftPct, weight: w.weight }))),
+      promotions: [],
+      timeline: []
+    };
+  });
+
+  const byRevenue = (a: { revenue: number }, b: { revenue: number }) => b.revenue - a.revenue;
+  const categoryRevenue = new Map(Array.from(byCategory.entries()).map(([c, items]) => [c, items.reduce((a, p) => a + p.revenue, 0)]));
+
+  return {
+    products: products.sort(byRevenue).map(({ revenue: _revenue, ...p }) => p),
+    categories: categories.sort((a, b) => (categoryRevenue.get(b.key) || 0) - (categoryRevenue.get(a.key) || 0))
+  };
+};
@@ -0,0 +1,143 @@
+import { ProductGroup, SalesRecord } from '../types';
+import { OTHER_BRAND } from './brandRegistry';
+
+// 規格字樣 (容量、功率、尺寸) 不是型號
+const SPEC_PATTERN = /^\d+(\.\d+)?(KG|L|W|V|HZ|K|CM|MM|INCH|P|GB|TB)$/i;
+
+/**
+ * 從商品名稱擷取型號 (例如 NR-B421TV、AR-36RC、43UR8050)
+ * 條件：英數字串 (可含 - / _)、同時包含英文與數字、長度 ≥ 5，取最長者
+ */
+export const extractModelNumber = (productName: string): string | undefined => {
+  const candidates = productName.match(/[A-Za-z0-9]+(?:[-_/][A-Za-z0-9]+)*/g) || [];
+  const models = candidates
+    .filter(c => c.length >= 5 && /[A-Za-z]/.test(c) && /\d/.test(c) && !SPEC_PATTERN.test(c))
+    .sort((a, b) => b.length - a.length);
+  return models[0]?.toUpperCase();
+};
+
+/**
+ * 型號比對鍵：忽略大小寫與連字號 (NR-B421TV = NRB421TV)
+ */
+export const modelKey = (model: string): string => model.toUpperCase().replace(/[-_/]/g, '');
+
+/**
+ * 既有資料的標準名稱索引 (鍵同分組 id：model:型號 / name:原始名稱)
+ */
+const existingCanonicalIndex = (existing: SalesRecord[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  existing.forEach(r => {
+    const rawName = r.RawProduct ?? r.Product;
+    if (!index.has(`name:${rawName}`)) index.set(`name:${rawName}`, r.Product);
+    const model = r.ModelNumber ?? extractModelNumber(rawName);
+    if (model && !index.has(`model:${modelKey(model)}`)) index.set(`model:${modelKey(model)}`, r.Product);
+  });
+  return index;
+};
+
+/**
+ * 建議商品分組：相同型號的不同名稱歸為一組
+ * 標準名稱取營收最高的寫法；沒有型號的商品各自成組
+ * 追加資料時傳入既有資料：已出現過的商品 (同原始名稱或同型號) 沿用既有的標準名稱，避免同一商品拆成兩個
+ */
+export const suggestProductGroups = (records: SalesRecord[], existing: SalesRecord[] = []): ProductGroup[] => {
+  const revenueByName = new Map<string, number>();
+  records.forEach(r => revenueByName.set(r.Product, (revenueByName.get(r.Product) || 0) + r.Amount));
+
+  const groups = new Map<string, ProductGroup>();
+  revenueByName.forEach((revenue, name) => {
+    const model = extractModelNumber(name);
+    const id = model ? `model:${modelKey(model)}` : `name:${name}`;
+    if (!groups.has(id)) {
+      groups.set(id, { id, canonicalName: name, modelNumber: model, variants: [], revenue: 0 });
+    }
+    const g = groups.get(id)!;
+    g.variants.push(name);
+    g.revenue += revenue;
+  });
+
+  const index = existingCanonicalIndex(existing);
+
+  return Array.from(groups.values())
+    .map(g => {
+      const variants = g.variants.sort((a, b) => (revenueByName.get(b) || 0) - (revenueByName.get(a) || 0));
+      const existingName = variants.map(v => index.get(`name:${v}`)).find(Boolean) ?? index.get(g.id);
+      if (existingName) {
+        return { ...g, canonicalName: existingName, variants: [existingName, ...variants.filter(v => v !== existingName)] };
+      }
+      return {
+        ...g,
+        variants,
+        canonicalName: variants.reduce((best, v) =>
+          (revenueByName.get(v) || 0) > (revenueByName.get(best) || 0) ? v : best, variants[0])
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+/**
+ * 合併多個分組 (保留第一個分組的標準名稱)
+ */
+export const mergeProductGroups = (groups: ProductGroup[], ids: string[]): ProductGroup[] => {
+  const targets = groups.filter(g => ids.includes(g.id));
+  if (targets.length < 2) return groups;
+
+  const [first, ...rest] = targets;
+  const merged: ProductGroup = {
+    ...first,
+    variants: targets.flatMap(g => g.variants),
+    revenue: targets.reduce((a, g) => a + g.revenue, 0)
+  };
+  const restIds = new Set(rest.map(g => g.id));
+  return groups.filter(g => !restIds.has(g.id)).map(g => g.id === first.id ? merged : g);
+};
+
+/**
+ * 將某個名稱從分組中拆出，成為獨立商品
+ */
+export const splitProductVariant = (groups: ProductGroup[], groupId: string, variant: string): ProductGroup[] => {
+  const source = groups.find(g => g.id === groupId);
+  if (!source || source.variants.length < 2) return groups;
+
+  const remaining = source.variants.filter(v => v !== variant);
+  const updated: ProductGroup = {
+    ...source,
+    variants: remaining,
+    canonicalName: source.canonicalName === variant ? remaining[0] : source.canonicalName
+  };
+  const detached: ProductGroup = {
+    id: `split:${variant}`,
+    canonicalName: variant,
+    modelNumber: extractModelNumber(variant),
+    variants: [variant],
+    revenue: 0
+  };
+  return [...groups.map(g => g.id === groupId ? updated : g), detached];
+};
+
+/**
+ * 套用分組：Product 改為標準名稱，原始名稱保留於 RawProduct
+ */
+export const applyProductGroups = (records: SalesRecord[], groups: ProductGroup[]): SalesRecord[] => {
+  const lookup = new Map<string, ProductGroup>();
+  groups.forEach(g => g.variants.forEach(v => lookup.set(v, g)));
+
+  // 同組商品統一品牌：取第一個可辨識的品牌 (部分寫法可能沒有品牌字樣)
+  const brandByGroup = new Map<string, string>();
+  records.forEach(r => {
+    const group = lookup.get(r.RawProduct ?? r.Product);
+    if (group && r.Brand !== OTHER_BRAND && !brandByGroup.has(group.id)) brandByGroup.set(group.id, r.Brand);
+  });
+
+  return records.map(r => {
+    const rawName = r.RawProduct ?? r.Product;
+    const group = lookup.get(rawName);
+    return {
+      ...r,
+      Product: group ? group.canonicalName : rawName,
+      Brand: (group && brandByGroup.get(group.id)) || r.Brand,
+      RawProduct: rawName,
+      ModelNumber: group?.modelNumber ?? extractModelNumber(rawName)
+    };
+  });
+};
@@ -0,0 +1,169 @@
+import * as XLSX from 'xlsx';
+import { InventoryMetrics, PurchaseOrder, PurchaseOrderLine, SalesRecord, StockPosition } from '../types';
+import { OTHER_BRAND } from './brandRegistry';
+
+/**
+ * 各商品最近一次的單位成本 (Cost 欄位)
+ */
+const latestUnitCosts = (records: SalesRecord[]): Map<string, number> => {
+  const latest = new Map<string, { date: string; cost: number }>();
+  records.forEach(r => {
+    if (r.Cost === undefined || r.Cost <= 0) return;
+    const prev = latest.get(r.Product);
+    if (!prev || r.Date >= prev.date) latest.set(r.Product, { date: r.Date, cost: r.Cost });
+  });
+  return new Map(Array.from(latest.entries()).map(([product, v]) => [product, v.cost]));
+};
+
+// 中文品牌名沒有英數字、或英數前綴相同時代碼會重複，故加上流水號確保單號唯一
+const orderNumber = (supplier: string, date: Date, seq: number) => {
+  const ymd = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const code = supplier.replace(/[^A-Za-z0-9]/g, '').slice(0, 8).toUpperCase() || 'SUP';
+  return `PO-${ymd}-${code}-${String(seq).padStart(2, '0')}`;
+};
+
+/**
+ * 依品牌 (供應商) 產生採購單草稿
+ * 有庫存快照的商品採用淨進貨量 (已扣除現有與在途)，其餘採用建議進貨量；數量為 0 的商品不列入
+ */
+export const buildPurchaseOrders = (
+  metrics: InventoryMetrics[],
+  positions: StockPosition[],
+  records: SalesRecord[]
+): PurchaseOrder[] => {
+  const netQty = new Map(positions.map(p => [p.productName, p.netOrderQty]));
+  const costs = latestUnitCosts(records);
+  const bySupplier = new Map<string, PurchaseOrderLine[]>();
+
+  metrics.forEach(m => {
+    const qty = netQty.has(m.productName) ? netQty.get(m.productName)! : m.suggestedOrderQty;
+    if (qty <= 0) return;
+    const supplier = m.brand || OTHER_BRAND;
+    if (!bySupplier.has(supplier)) bySupplier.set(supplier, []);
+    bySupplier.get(supplier)!.push({
+      productName: m.productName,
+      category: m.category,
+      qty,
+      suggestedQty: qty,
+      unitCost: costs.get(m.productName) || 0,
+      moq: m.moq ?? 1,
+      packSize: m.packSize ?? 1
+    });
+  });
+
+  const now = new Date();
+  return Array.from(bySupplier.entries())
+    .map(([supplier, lines]) => ({
+      id: '',
+      supplier,
+      createdAt: now.toISOString(),
+      lines: lines.sort((a, b) => a.category.localeCompare(b.category) || a.productName.localeCompare(b.productName))
+    }))
+    .sort((a, b) => orderTotals(b).totalCost - orderTotals(a).totalCost || a.supplier.localeCompare(b.supplier))
+    .map((order, i) => ({ ...order, id: orderNumber(order.supplier, now, i + 1) }));
+};
+
+/**
+ * 建議量簽章：各商品的建議進貨量與淨進貨量，內容相同即視為建議未變動
+ */
+export const suggestionSignature = (metrics: InventoryMetrics[], positions: StockPosition[]): string => {
+  const netQty = new Map(positions.map(p => [p.productName, p.netOrderQty]));
+  return metrics.map(m => `${m.productName}:${netQty.get(m.productName) ?? m.suggestedOrderQty}`).join('|');
+};
+
+export const orderTotals = (order: PurchaseOrder) => ({
+  totalQty: order.lines.reduce((a, l) => a + l.qty, 0),
+  totalCost: order.lines.reduce((a, l) => a + l.qty * l.unitCost, 0)
+});
+
+/**
+ * 檢查調整後的數量是否符合 MOQ 與整箱
+ */
+export const lineWarning = (line: PurchaseOrderLine): string | null => {
+  if (line.qty <= 0) return null;
+  if (line.qty < line.moq) return `低於最小訂購量 ${line.moq}`;
+  if (line.qty % Math.max(1, line.packSize) !== 0) return `非整箱 (每箱 ${line.packSize})`;
+  return null;
+};
+
+// ========== 匯出 ==========
+
+export const exportPurchaseOrderXlsx = (order: PurchaseOrder): void => {
+  const { totalQty, totalCost } = orderTotals(order);
+  const rows: (string | number)[][] = [
+    ['採購單號', order.id],
+    ['供應商', order.supplier],
+    ['建立日期', new Date(order.createdAt).toLocaleDateString('zh-TW')],
+    [],
+    ['類別', '商品名稱', '數量', '每箱入數', '單位成本', '小計'],
+    ...order.lines
+      .filter(l => l.qty > 0)
+      .map(l => [l.category, l.productName, l.qty, l.packSize, l.unitCost, l.qty * l.unitCost]),
+    [],
+    ['', '合計', totalQty, '', '', totalCost]
+  ];
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 12 }, { wch: 40 }, { wch: 8 }, { wch: 10 }, { wch: 12 }, { wch: 14 }];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '採購單');
+  XLSX.writeFile(workbook, `${order.id}.xlsx`);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 可列印的採購單 HTML (瀏覽器列印時可另存為 PDF)
+ */
+export const buildPurchaseOrderHtml = (order: PurchaseOrder): string => {
+  const { totalQty, totalCost } = orderTotals(order);
+  const money = (n: number) => n.toLocaleString('zh-TW', { maximumFractionDigits: 0 });
+  const rows = order.lines
+    .filter(l => l.qty > 0)
+    .map((l, idx) => `
+      <tr>
+        <td>${idx + 1}</td>
+        <td>${escapeHtml(l.category)}</td>
+        <td>${escapeHtml(l.productName)}</td>
+        <td class="num">${l.qty}</td>
+        <td class="num">${l.packSize}</td>
+        <td class="num">${money(l.unitCost)}</td>
+        <td class="num">${money(l.qty * l.unitCost)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-TW">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(order.id)}</title>
+<style>
+  body { font-family: "Noto Sans TC", "Microsoft JhengHei", sans-serif; margin: 32px; color: #1f2937; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 13px; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; }
+  th { background: #f3f4f6; }
+  .num { text-align: right; }
+  tfoot td { font-weight: bold; }
+  .sign { margin-top: 48px; display: flex; gap: 64px; font-size: 13px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>採購單 ${escapeHtml(order.id)}</h1>
+  <div class="meta">供應商：${escapeHtml(order.supplier)}　｜　建立日期：${new Date(order.createdAt).toLocaleDateString('zh-TW')}</div>
+  <table>
+    <thead>
+      <tr><th>#</th><th>類別</th><th>商品名稱</th><th class="num">數量</th><th class="num">每箱入數</th><th class="num">單位成本</th><th class="num">小計</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+    <tfoot>
+      <tr><td colspan="3">合計</td><td class="num">${totalQty}</td><td></td><td></td><td class="num">${money(totalCost)}</td></tr>
+    </tfoot>
+  </table>
+  <div class="sign"><span>採購人員：__________</span><span>主管核准：__________</span></div>
+</body>
+</html>`;
+};
@@ -0,0 +1,171 @@
+import { InventoryMetrics, SalesRecord, StockLevel, StockPosition, StockSnapshot, StockoutRisk } from '../types';
+import { extractHeaders } from './columnMapping';
+import { parseNumber } from './dataQuality';
+import { extractModelNumber, modelKey } from './productIdentity';
+import { roundToPack } from './supplierSettings';
+
+type StockField = 'product' | 'onHand' | 'onOrder' | 'location';
+
+// 依優先順序排列；在途欄位需先於現有庫存判斷，避免「在途庫存」被當成現有庫存
+const STOCK_FIELDS: { field: StockField; label: string; patterns: string[]; excludes: string[] }[] = [
+  { field: 'onOrder', label: '在途', patterns: ['在途', '已訂', '未到', '採購中', 'on order', 'onorder', 'incoming'], excludes: [] },
+  { field: 'onHand', label: '現有庫存', patterns: ['現有', '庫存', '在庫', '結存', '數量', 'on hand', 'onhand', 'stock', 'qty'], excludes: ['金額', '成本', 'amount', 'cost'] },
+  { field: 'product', label: '商品', patterns: ['品名', '商品名稱', '商品', 'product', '型號', 'model', '名稱', 'name'], excludes: ['倉', '門市', '分店', 'location', 'store', 'warehouse', '類'] },
+  { field: 'location', label: '倉庫/門市', patterns: ['倉庫', '倉別', '門市', '分店', '據點', 'location', 'warehouse', 'store'], excludes: [] }
+];
+
+const detectStockColumns = (headers: string[]): Partial<Record<StockField, string>> => {
+  const used = new Set<string>();
+  const result: Partial<Record<StockField, string>> = {};
+  STOCK_FIELDS.forEach(spec => {
+    const match = spec.patterns
+      .map(p => headers.find(h => {
+        const lower = h.trim().toLowerCase();
+        return !used.has(h) && lower.includes(p) && !spec.excludes.some(e => lower.includes(e));
+      }))
+      .find(Boolean);
+    if (match) {
+      result[spec.field] = match;
+      used.add(match);
+    }
+  });
+  return result;
+};
+
+/**
+ * 解析庫存快照 (商品、現有庫存、在途、倉庫/門市)
+ * 找不到商品或現有庫存欄位時回傳問題說明
+ */
+export const parseStockSnapshot = (
+  rows: any[],
+  fileName: string
+): { snapshot: StockSnapshot | null; problems: string[] } => {
+  const headers = extractHeaders(rows);
+  const columns = detectStockColumns(headers);
+  const problems = STOCK_FIELDS
+    .filter(f => (f.field === 'product' || f.field === 'onHand') && !columns[f.field])
+    .map(f => `找不到「${f.label}」欄位 (現有欄位：${headers.join('、')})`);
+  if (problems.length > 0) return { snapshot: null, problems };
+
+  const levels: StockLevel[] = [];
+  rows.forEach(row => {
+    const product = String(row[columns.product!] ?? '').trim();
+    if (!product) return;
+    levels.push({
+      product,
+      onHand: parseNumber(row[columns.onHand!]).value,
+      onOrder: columns.onOrder ? parseNumber(row[columns.onOrder]).value : 0,
+      location: columns.location ? String(row[columns.location] ?? '').trim() || undefined : undefined
+    });
+  });
+
+  return { snapshot: { fileName, importedAt: new Date().toISOString(), levels }, problems: [] };
+};
+
+/**
+ * 庫存檔商品名稱對應到銷售資料的商品：
+ * 完全相同 (忽略大小寫) → 合併前的原始名稱 → 型號
+ */
+export const buildProductMatcher = (records: SalesRecord[]) => {
+  const byName = new Map<string, string>();
+  const byModel = new Map<string, string>();
+  records.forEach(r => {
+    byName.set(r.Product.trim().toLowerCase(), r.Product);
+    if (r.RawProduct) byName.set(r.RawProduct.trim().toLowerCase(), r.Product);
+    const model = r.ModelNumber || extractModelNumber(r.Product);
+    if (model && !byModel.has(modelKey(model))) byModel.set(modelKey(model), r.Product);
+  });
+
+  return (name: string): string | undefined => {
+    const exact = byName.get(name.trim().toLowerCase());
+    if (exact) return exact;
+    const model = extractModelNumber(name);
+    return model ? byModel.get(modelKey(model)) : undefined;
+  };
+};
+
+/**
+ * 補貨建議：庫存快照 × 庫存指標
+ * - 目標庫存 = 再訂購點 + 建議進貨量 (下月預測需求)
+ * - 淨進貨量 = 目標庫存 − 現有 − 在途 (不小於 0)，進位至 MOQ 與整箱
+ * - 缺貨風險：無庫存 → OUT；可銷售天數短於該品牌前置期 → HIGH；現有 + 在途低於再訂購點 → MEDIUM
+ * - 對應得到商品但期間內沒有銷售 (沒有庫存指標) 的庫存以需求 0 列出 (呆滯庫存)；scope 為目前篩選範圍內的商品
+ * - 商品名稱對應不到任何銷售商品的列入 unmatched
+ */
+export const calculateStockPositions = (
+  metrics: InventoryMetrics[],
+  snapshot: StockSnapshot,
+  records: SalesRecord[],
+  scope?: Set<string>
+): { positions: StockPosition[]; unmatched: string[] } => {
+  const match = buildProductMatcher(records);
+  const stockByProduct = new Map<string, { onHand: number; onOrder: number; locations: Set<string> }>();
+  const unmatched = new Set<string>();
+
+  snapshot.levels.forEach(level => {
+    const product = match(level.product);
+    if (!product) {
+      unmatched.add(level.product);
+      return;
+    }
+    if (!stockByProduct.has(product)) stockByProduct.set(product, { onHand: 0, onOrder: 0, locations: new Set() });
+    const stock = stockByProduct.get(product)!;
+    stock.onHand += level.onHand;
+    stock.onOrder += level.onOrder;
+    if (level.location) stock.locations.add(level.location);
+  });
+
+  const withMetrics = new Set(metrics.map(m => m.productName));
+  const categoryOf = new Map<string, string>();
+  records.forEach(r => { if (!categoryOf.has(r.Product)) categoryOf.set(r.Product, r.Category); });
+  const noSales: StockPosition[] = Array.from(stockByProduct.entries())
+    .filter(([product]) => !withMetrics.has(product) && (!scope || scope.has(product)))
+    .map(([product, stock]) => ({
+      productName: product,
+      category: categoryOf.get(product) || '',
+      onHand: stock.onHand,
+      onOrder: stock.onOrder,
+      locations: Array.from(stock.locations),
+      avgDailySales: 0,
+      reorderPoint: 0,
+      targetStock: 0,
+      netOrderQty: 0,
+      daysOfCover: null,
+      stockoutRisk: 'LOW' as StockoutRisk,
+      noSales: true
+    }));
+
+  const positions = metrics
+    .filter(m => stockByProduct.has(m.productName))
+    .map(m => {
+      const stock = stockByProduct.get(m.productName)!;
+      const targetStock = m.reorderPoint + (m.rawOrderQty ?? m.suggestedOrderQty);
+      const leadTimeDays = m.leadTimeDays ?? 7;
+      const daysOfCover = m.avgDailySales > 0 ? Math.round((stock.onHand / m.avgDailySales) * 10) / 10 : null;
+
+      let stockoutRisk: StockoutRisk = 'LOW';
+      if (stock.onHand <= 0) stockoutRisk = 'OUT';
+      else if (daysOfCover !== null && daysOfCover < leadTimeDays) stockoutRisk = 'HIGH';
+      else if (stock.onHand + stock.onOrder < m.reorderPoint) stockoutRisk = 'MEDIUM';
+
+      return {
+        productName: m.productName,
+        category: m.category,
+        onHand: stock.onHand,
+        onOrder: stock.onOrder,
+        locations: Array.from(stock.locations),
+        avgDailySales: m.avgDailySales,
+        reorderPoint: m.reorderPoint,
+        targetStock,
+        netOrderQty: roundToPack(Math.ceil(targetStock - stock.onHand - stock.onOrder), m.moq ?? 1, m.packSize ?? 1),
+        daysOfCover,
+        stockoutRisk
+      };
+    });
+
+  positions.push(...noSales);
+  const riskOrder: Record<StockoutRisk, number> = { OUT: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+  positions.sort((a, b) => riskOrder[a.stockoutRisk] - riskOrder[b.stockoutRisk] || b.netOrderQty - a.netOrderQty);
+
+  return { positions, unmatched: Array.from(unmatched) };
+};
@@ -0,0 +1,168 @@
+import * as XLSX from 'xlsx';
+import {
+  InventoryMetrics, InventorySettings, ProductPerformance, RemainingNeed, SalesRecord, StockSnapshot,
+  TransferPlan, TransferReason, TransferSuggestion
+} from '../types';
+import { detectSlowMoving } from './dataProcessor';
+import { getDateRange } from './datasetMerge';
+import { buildProductMatcher } from './stockSnapshot';
+import { calculateStoreInventory, listStores } from './storeAnalysis';
+
+const SLOW_MOVING_DAYS = 30; // 與庫存分頁的滯銷判斷一致
+
+interface StoreStock {
+  store: string;
+  onHand: number;
+  onOrder: number;
+  metrics?: InventoryMetrics;  // 該門市沒有此商品銷售時為 undefined
+  slow: boolean;
+  surplus: number;             // 可調出量 (只計現有庫存)
+  need: number;                // 需調入量
+}
+
+const daysOfCover = (onHand: number, avgDailySales: number) =>
+  avgDailySales > 0 ? Math.round((onHand / avgDailySales) * 10) / 10 : null;
+
+/**
+ * 門市間調撥建議 (在發出採購前先消化其他門市的庫存)
+ * - 各門市的日均銷量、再訂購點、目標庫存依該門市自己的銷售計算 (見 storeAnalysis.ts)
+ * - 需調入：現有 + 在途低於再訂購點，補到目標庫存 (再訂購點 + 30 天需求)
+ * - 可調出：超過目標庫存的現有庫存；滯銷 (30 天未售) 或該門市沒賣過的商品只保留再訂購點
+ * - 每項商品依缺貨急迫度 (可銷售天數由少到多) 分配，優先由滯銷、庫存最多的門市調出
+ * 庫存快照的「倉庫/門市」需與銷售資料的門市名稱相同；其他位置 (如總倉) 只列出不調撥
+ */
+export const suggestTransfers = (
+  records: SalesRecord[],
+  snapshot: StockSnapshot,
+  settings: InventorySettings,
+  performance: ProductPerformance[]
+): TransferPlan => {
+  const salesStores = new Set(listStores(records));
+  // 只比較快照有涵蓋的門市；快照沒有的門市庫存未知，不能當成 0
+  const stores = new Set(snapshot.levels.map(l => l.location).filter((l): l is string => !!l && salesStores.has(l)));
+  const match = buildProductMatcher(records);
+  const asOfDate = getDateRange(records)?.end;
+
+  // 各門市的庫存指標與滯銷商品
+  const metricsByStore = new Map<string, Map<string, InventoryMetrics>>();
+  calculateStoreInventory(records, settings, performance).forEach(i => {
+    metricsByStore.set(i.store, new Map(i.metrics.map(m => [m.productName, m])));
+  });
+  const slowByStore = new Map<string, Set<string>>();
+  stores.forEach(store => {
+    const rows = records.filter(r => r.Store === store);
+    slowByStore.set(store, new Set(detectSlowMoving(rows, SLOW_MOVING_DAYS, asOfDate).map(a => a.productName)));
+  });
+
+  // 快照依 商品 × 門市 彙總
+  const stock = new Map<string, Map<string, { onHand: number; onOrder: number }>>();
+  const unknownLocations = new Set<string>();
+  let unlocatedLevels = 0;
+  snapshot.levels.forEach(level => {
+    if (!level.location) { unlocatedLevels++; return; }
+    if (!salesStores.has(level.location)) { unknownLocations.add(level.location); return; }
+    const product = match(level.product);
+    if (!product) return;
+    if (!stock.has(product)) stock.set(product, new Map());
+    const byStore = stock.get(product)!;
+    const s = byStore.get(level.location) || { onHand: 0, onOrder: 0 };
+    s.onHand += level.onHand;
+    s.onOrder += level.onOrder;
+    byStore.set(level.location, s);
+  });
+
+  const categoryOf = new Map<string, string>();
+  records.forEach(r => { if (!categoryOf.has(r.Product)) categoryOf.set(r.Product, r.Category); });
+
+  const transfers: TransferSuggestion[] = [];
+  const remainingNeeds: RemainingNeed[] = [];
+  let purchaseQtyBefore = 0;
+
+  stock.forEach((byStore, productName) => {
+    const positions: StoreStock[] = Array.from(stores).map(store => {
+      const s = byStore.get(store) || { onHand: 0, onOrder: 0 };
+      const metrics = metricsByStore.get(store)?.get(productName);
+      const slow = !metrics || slowByStore.get(store)!.has(productName);
+      const reorderPoint = metrics?.reorderPoint ?? 0;
+      const target = metrics ? reorderPoint + (metrics.rawOrderQty ?? metrics.suggestedOrderQty) : 0;
+      const available = s.onHand + s.onOrder;
+      const keep = slow ? reorderPoint : target;
+      return {
+        store,
+        onHand: s.onHand,
+        onOrder: s.onOrder,
+        metrics,
+        slow,
+        surplus: Math.max(0, Math.min(s.onHand, available - keep)),
+        need: metrics && available < reorderPoint ? Math.ceil(target - available) : 0
+      };
+    });
+
+    const receivers = positions
+      .filter(p => p.need > 0)
+      .sort((a, b) =>
+        (daysOfCover(a.onHand, a.metrics!.avgDailySales) ?? Infinity) - (daysOfCover(b.onHand, b.metrics!.avgDailySales) ?? Infinity));
+    const donors = positions
+      .filter(p => p.surplus > 0)
+      .sort((a, b) => Number(b.slow) - Number(a.slow) || b.surplus - a.surplus);
+    purchaseQtyBefore += receivers.reduce((a, p) => a + p.need, 0);
+
+    receivers.forEach(to => {
+      donors.forEach(from => {
+        if (to.need <= 0 || from.surplus <= 0 || from.store === to.store) return;
+        const quantity = Math.floor(Math.min(to.need, from.surplus));
+        if (quantity <= 0) return;
+        const reason: TransferReason = from.slow ? 'SLOW_MOVING' : 'OVERSTOCK';
+        transfers.push({
+          productName,
+          category: categoryOf.get(productName) || '',
+          fromStore: from.store,
+          toStore: to.store,
+          quantity,
+          reason,
+          fromOnHand: from.onHand,
+          toOnHand: to.onHand,
+          fromDaysOfCover: daysOfCover(from.onHand, from.metrics?.avgDailySales ?? 0),
+          toDaysOfCover: daysOfCover(to.onHand, to.metrics!.avgDailySales),
+          toAvgDailySales: to.metrics!.avgDailySales
+        });
+        to.need -= quantity;
+        from.surplus -= quantity;
+      });
+      if (to.need > 0) {
+        remainingNeeds.push({ productName, category: categoryOf.get(productName) || '', store: to.store, quantity: to.need });
+      }
+    });
+  });
+
+  // 缺貨最急的調撥排前面
+  transfers.sort((a, b) => (a.toDaysOfCover ?? Infinity) - (b.toDaysOfCover ?? Infinity) || b.quantity - a.quantity);
+
+  return {
+    transfers,
+    remainingNeeds: remainingNeeds.sort((a, b) => b.quantity - a.quantity),
+    purchaseQtyBefore,
+    purchaseQtyAfter: remainingNeeds.reduce((a, n) => a + n.quantity, 0),
+    unknownLocations: Array.from(unknownLocations),
+    unlocatedLevels
+  };
+};
+
+export const TRANSFER_REASON_LABELS: Record<TransferReason, string> = {
+  SLOW_MOVING: '滯銷',
+  OVERSTOCK: '庫存過多'
+};
+
+export const exportTransfersXlsx = (transfers: TransferSuggestion[]): void => {
+  const rows: (string | number)[][] = [
+    ['類別', '商品名稱', '調出門市', '調入門市', '數量', '原因', '調出門市現有', '調入門市現有'],
+    ...transfers.map(t => [
+      t.category, t.productName, t.fromStore, t.toStore, t.quantity, TRANSFER_REASON_LABELS[t.reason], t.fromOnHand, t.toOnHand
+    ])
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 12 }, { wch: 40 }, { wch: 14 }, { wch: 14 }, { wch: 8 }, { wch: 10 }, { wch: 12 }, { wch: 12 }];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '調撥單');
+  XLSX.writeFile(workbook, `Transfer_${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
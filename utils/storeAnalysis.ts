@@ -0,0 +1,96 @@
+import {
+  ABCClass, InventorySettings, ProductPerformance, SalesChannel, SalesRecord, StoreInventory, StoreMetric
+} from '../types';
+import { calculateInventoryMetrics } from './dataProcessor';
+import { groupTransactions } from './transactions';
+
+const MAX_BRANDS = 8;
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * 資料中的門市清單 (依營收排序)
+ */
+export const listStores = (records: SalesRecord[]): string[] => {
+  const revenue = new Map<string, number>();
+  records.forEach(r => {
+    if (r.Store) revenue.set(r.Store, (revenue.get(r.Store) || 0) + r.Amount);
+  });
+  return Array.from(revenue.keys()).sort((a, b) => revenue.get(b)! - revenue.get(a)!);
+};
+
+export const listChannels = (records: SalesRecord[]): SalesChannel[] =>
+  Array.from(new Set(records.map(r => r.Channel).filter((c): c is SalesChannel => !!c)));
+
+const groupByStore = (records: SalesRecord[]): Map<string, SalesRecord[]> => {
+  const groups = new Map<string, SalesRecord[]>();
+  records.forEach(r => {
+    if (!r.Store) return;
+    if (!groups.has(r.Store)) groups.set(r.Store, []);
+    groups.get(r.Store)!.push(r);
+  });
+  return groups;
+};
+
+/**
+ * 門市比較
+ * - ABC 組成依整體分級 (globalPerformance)，看各門市營收集中在哪一級商品
+ * - 品牌占比取各門市營收前 8 大品牌
+ * - 沒有門市欄位的紀錄不列入
+ */
+export const analyzeStores = (records: SalesRecord[], performance: ProductPerformance[]): StoreMetric[] => {
+  const abcMap = new Map(performance.map(p => [p.productName, p.abcClass]));
+  const groups = groupByStore(records);
+  const total = Array.from(groups.values()).flat().reduce((a, r) => a + r.Amount, 0);
+
+  return Array.from(groups.entries()).map(([store, rows]) => {
+    const revenue = rows.reduce((a, r) => a + r.Amount, 0);
+
+    const abcRevenue: Record<ABCClass, number> = { [ABCClass.A]: 0, [ABCClass.B]: 0, [ABCClass.C]: 0 };
+    const brandRevenue = new Map<string, number>();
+    rows.forEach(r => {
+      abcRevenue[abcMap.get(r.Product) ?? ABCClass.C] += r.Amount;
+      brandRevenue.set(r.Brand, (brandRevenue.get(r.Brand) || 0) + r.Amount);
+    });
+
+    const pct = (v: number) => revenue > 0 ? round1((v / revenue) * 100) : 0;
+
+    return {
+      store,
+      channels: listChannels(rows),
+      revenue,
+      quantity: rows.reduce((a, r) => a + r.Quantity, 0),
+      share: total > 0 ? round1((revenue / total) * 100) : 0,
+      productCount: new Set(rows.map(r => r.Product)).size,
+      transactionCount: groupTransactions(rows.filter(r => !r.isGift)).size,
+      abcMix: {
+        [ABCClass.A]: pct(abcRevenue[ABCClass.A]),
+        [ABCClass.B]: pct(abcRevenue[ABCClass.B]),
+        [ABCClass.C]: pct(abcRevenue[ABCClass.C])
+      },
+      brandShare: Array.from(brandRevenue.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_BRANDS)
+        .map(([brand, brandTotal]) => ({ brand, revenue: brandTotal, share: pct(brandTotal) }))
+    };
+  }).sort((a, b) => b.revenue - a.revenue);
+};
+
+/**
+ * 各門市補貨建議：以門市自己的銷售紀錄計算安全庫存與再訂購點
+ * 服務水準沿用整體 ABC 分級；門市層級資料較稀疏，建議量以日均銷量 × 30 估算 (不跑預測模型)
+ */
+export const calculateStoreInventory = (
+  records: SalesRecord[],
+  settings: InventorySettings,
+  performance: ProductPerformance[]
+): StoreInventory[] =>
+  Array.from(groupByStore(records).entries()).map(([store, rows]) => {
+    const metrics = calculateInventoryMetrics(rows, [], settings, performance);
+    return {
+      store,
+      metrics,
+      totalSuggestedQty: metrics.reduce((a, m) => a + m.suggestedOrderQty, 0),
+      totalSafetyStock: metrics.reduce((a, m) => a + m.safetyStock, 0)
+    };
+  }).sort((a, b) => b.totalSuggestedQty - a.totalSuggestedQty);
@@ -0,0 +1,77 @@
+import { ABCClass, InventorySettings, SupplierSettings } from '../types';
+
+const STORAGE_KEY = 'inventorySettings';
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  defaults: { leadTimeDays: 7, leadTimeStdDays: 0, moq: 1, packSize: 1 },
+  suppliers: [],
+  serviceLevels: { [ABCClass.A]: 98, [ABCClass.B]: 95, [ABCClass.C]: 90 }
+};
+
+/**
+ * 取得品牌的補貨條件，未設定時使用預設值
+ */
+export const getSupplierSettings = (brand: string | undefined, settings: InventorySettings): SupplierSettings => {
+  const found = brand ? settings.suppliers.find(s => s.brand === brand) : undefined;
+  return found || { brand: brand || '', ...settings.defaults };
+};
+
+/**
+ * 服務水準 → Z 值 (標準常態反函數，Acklam 近似法)
+ * 例：95% → 1.645，98% → 2.054
+ */
+export const zForServiceLevel = (percent: number): number => {
+  const p = Math.min(Math.max(percent / 100, 0.5), 0.9999);
+  const a = [-39.6968302866538, 220.946098424521, -275.928510446969, 138.357751867269, -30.6647980661472, 2.50662827745924];
+  const b = [-54.4760987982241, 161.585836858041, -155.698979859887, 66.8013118877197, -13.2806815528857];
+  const c = [-0.00778489400243029, -0.322396458041136, -2.40075827716184, -2.54973253934373, 4.37466414146497, 2.93816398269878];
+  const d = [0.00778469570904146, 0.32246712907004, 2.445134137143, 3.75440866190742];
+  const pHigh = 0.97575;
+
+  if (p <= pHigh) {
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+  const q = Math.sqrt(-2 * Math.log(1 - p));
+  return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+};
+
+/**
+ * 訂購量進位：不足最小訂購量時補足，再進位至整箱
+ * 需求為 0 時不下單
+ */
+export const roundToPack = (qty: number, moq: number, packSize: number): number => {
+  if (qty <= 0) return 0;
+  const pack = Math.max(1, packSize);
+  return Math.ceil(Math.max(qty, moq) / pack) * pack;
+};
+
+// ========== 設定保存 (localStorage) ==========
+
+export const loadInventorySettings = (): InventorySettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      return {
+        defaults: { ...DEFAULT_INVENTORY_SETTINGS.defaults, ...saved.defaults },
+        suppliers: saved.suppliers || [],
+        serviceLevels: { ...DEFAULT_INVENTORY_SETTINGS.serviceLevels, ...saved.serviceLevels }
+      };
+    }
+  } catch (err) {
+    console.error('無法讀取補貨參數:', err);
+  }
+  return DEFAULT_INVENTORY_SETTINGS;
+};
+
+export const saveInventorySettings = (settings: InventorySettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('無法儲存補貨參數:', err);
+  }
+};
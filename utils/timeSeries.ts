@@ -0,0 +1,106 @@
+import { Granularity, SalesRecord, TimeSeries } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 以 UTC 計算，避免時區與日光節約造成日期偏移
+const toTime = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10));
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * 日期加減天數 (YYYY-MM-DD)
+ */
+export const addDays = (date: string, days: number): string => toDate(toTime(date) + days * DAY_MS);
+
+/**
+ * 日期所屬的期間代碼 (週以週一為起點)
+ */
+export const periodOf = (date: string, granularity: Granularity): string => {
+  if (granularity === 'month') return date.slice(0, 7);
+  if (granularity === 'day') return date;
+  const time = toTime(date);
+  const weekday = (new Date(time).getUTCDay() + 6) % 7; // 週一 = 0
+  return toDate(time - weekday * DAY_MS);
+};
+
+/**
+ * 列出 start ~ end 之間的所有期間
+ */
+export const enumeratePeriods = (start: string, end: string, granularity: Granularity): string[] => {
+  const periods: string[] = [];
+  if (granularity === 'month') {
+    let [y, m] = [+start.slice(0, 4), +start.slice(5, 7)];
+    const last = end.slice(0, 7);
+    for (let p = start.slice(0, 7); p <= last; p = `${y}-${String(m).padStart(2, '0')}`) {
+      periods.push(p);
+      m += 1;
+      if (m > 12) { m = 1; y += 1; }
+    }
+    return periods;
+  }
+
+  const step = granularity === 'week' ? 7 * DAY_MS : DAY_MS;
+  const endTime = toTime(periodOf(end, granularity));
+  for (let t = toTime(periodOf(start, granularity)); t <= endTime; t += step) periods.push(toDate(t));
+  return periods;
+};
+
+/**
+ * 資料涵蓋的日曆區間 (僅計入有效日期)
+ */
+export const getCalendarRange = (records: SalesRecord[]): { start: string; end: string } | null => {
+  let start = '';
+  let end = '';
+  records.forEach(r => {
+    if (!DATE_PATTERN.test(r.Date)) return;
+    if (!start || r.Date < start) start = r.Date;
+    if (!end || r.Date > end) end = r.Date;
+  });
+  return start ? { start, end } : null;
+};
+
+/**
+ * 共用時間序列建構：依 keyOf 分組，展開為連續的日/週/月序列，沒有銷售的期間補 0
+ * - 每個序列從該組首次出現的日期開始 (尚未上架的期間不算 0 銷量)，到整份資料的最後一天為止
+ * - 淨銷量為負 (退貨多於銷售) 的期間視為 0 需求
+ */
+export const buildTimeSeries = (
+  records: SalesRecord[],
+  keyOf: (r: SalesRecord) => string = r => r.Product,
+  granularity: Granularity = 'day'
+): TimeSeries[] => {
+  const range = getCalendarRange(records);
+  if (!range) return [];
+
+  const groups = new Map<string, { category: string; first: string; totals: Map<string, number> }>();
+  records.forEach(r => {
+    if (!DATE_PATTERN.test(r.Date)) return;
+    const key = keyOf(r);
+    if (!groups.has(key)) groups.set(key, { category: r.Category, first: r.Date, totals: new Map() });
+    const g = groups.get(key)!;
+    if (r.Date < g.first) g.first = r.Date;
+    const period = periodOf(r.Date, granularity);
+    g.totals.set(period, (g.totals.get(period) || 0) + r.Quantity);
+  });
+
+  return Array.from(groups.entries()).map(([key, g]) => {
+    const periods = enumeratePeriods(g.first, range.end, granularity);
+    return {
+      key,
+      category: g.category,
+      granularity,
+      periods,
+      values: periods.map(p => Math.max(0, g.totals.get(p) || 0))
+    };
+  });
+};
+
+/**
+ * 序列平均與標準差 (母體)
+ */
+export const seriesStats = (values: number[]): { mean: number; stdDev: number } => {
+  if (values.length === 0) return { mean: 0, stdDev: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+};
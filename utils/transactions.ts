@@ -0,0 +1,30 @@
+import { SalesRecord, TransactionMode } from '../types';
+
+/**
+ * 交易重建方式：任一紀錄帶有訂單編號即依訂單分組
+ */
+export const transactionMode = (records: SalesRecord[]): TransactionMode =>
+  records.some(r => r.OrderId) ? 'ORDER_ID' : 'DATE_SOURCE';
+
+/**
+ * 同一筆交易的判斷
+ * - 有訂單編號：同訂單編號 (同一來源檔、同門市內；各門市可能各自編號)
+ * - 無訂單編號：同日期、同門市、同來源工作表
+ */
+export const transactionKey = (r: SalesRecord): string =>
+  r.OrderId
+    ? `order|${r.SourceFile ?? ''}|${r.Store ?? ''}|${r.OrderId}`
+    : `${r.Date}|${r.Store ?? ''}|${r.SourceFile ?? ''}|${r.SourceSheet ?? ''}`;
+
+/**
+ * 依交易分組
+ */
+export const groupTransactions = (records: SalesRecord[]): Map<string, SalesRecord[]> => {
+  const transactions = new Map<string, SalesRecord[]>();
+  records.forEach(r => {
+    const key = transactionKey(r);
+    if (!transactions.has(key)) transactions.set(key, []);
+    transactions.get(key)!.push(r);
+  });
+  return transactions;
+};